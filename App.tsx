@@ -7,7 +7,11 @@ import { ReservationRepository } from './services/reservations/repository';
 import { RestaurantRepository } from './services/restaurants/repository';
 import { RestaurantConfigRepository } from './services/restaurants/configRepository';
 import { fetchTablesState } from './services/tables/tableApi';
-import { pickTableForReservation, suggestAlternativeTimesByTables, listAvailableTablesForReservation } from './services/reservations/tableAssignment';
+import { handleReminderReply } from './services/reservations/reminders';
+import { MessageOutbox } from './services/messaging/outbox';
+import { deriveIdempotencyKey } from './services/reservations/idempotency';
+import { pickTableForReservation, suggestAlternativeTimesByTables, isTableSetAvailable } from './services/reservations/tableAssignment';
+import { resolveSeating, seatingZoneOf, tableSetMatchesSeating } from './services/reservations/seating';
 import ConfigPanel from './components/ConfigPanel';
 import DebugPanel from './components/DebugPanel';
 import ChatBubble from './components/ChatBubble';
@@ -35,6 +39,19 @@ function getApiKey(): string {
   return (viteKey || legacyApiKey || legacyGeminiKey || "").trim();
 }
 
+// The model sends null for anything not mentioned this turn; keep what earlier turns collected.
+function mergeSpecialRequests(
+  prev: ReservationState["special_requests"],
+  next: ReservationState["special_requests"]
+): ReservationState["special_requests"] {
+  const out: Record<string, unknown> = { ...(prev ?? {}) };
+  for (const key of Object.keys(next ?? {})) {
+    const value = (next as Record<string, unknown>)[key];
+    if (value !== null && value !== undefined) out[key] = value;
+  }
+  return out;
+}
+
 function getErrorMessage(error: unknown): string {
   if (!error) return "Error desconocido.";
   if (error instanceof Error) return error.message || "Error desconocido.";
@@ -172,6 +189,23 @@ const App: React.FC = () => {
     setMessages([initialMsg]);
   }, [restaurantId]); 
 
+  // The server queues reminders and releases in the outbox. This chat stands in for the
+  // simulated guest's WhatsApp, so it shows (and delivers) the ones for that number;
+  // other numbers stay queued until a provider is wired in.
+  useEffect(() => {
+    if (!restaurantId) return;
+    const phone = reservationContext.simulatedUserPhone;
+    const deliver = () => {
+      const queued = MessageOutbox.pendingFor(restaurantId, phone);
+      if (queued.length === 0) return;
+      MessageOutbox.markDelivered(queued.map(m => m.id));
+      const msgs: ChatMessage[] = queued.map(m => ({ id: `${m.kind}-${m.id}`, role: 'model', text: m.text, timestamp: m.queued_at }));
+      setMessages(prev => [...prev, ...msgs.filter(msg => !prev.some(p => p.id === msg.id))]);
+    };
+    deliver();
+    return MessageOutbox.subscribe(deliver);
+  }, [restaurantId, reservationContext.simulatedUserPhone]);
+
   const openOwnerPage = () => {
     if (!restaurantId) return;
     window.location.hash = `#/owner?rid=${encodeURIComponent(restaurantId)}`;
@@ -231,6 +265,19 @@ const App: React.FC = () => {
     setIsLoading(true);
 
     try {
+      // A short "sí" / "cancelar" right after a reminder answers it without going through the model.
+      const lastModelMsg = [...messages].reverse().find(m => m.role === 'model');
+      const reminderReply = lastModelMsg?.id.startsWith('reminder-')
+        ? handleReminderReply(restaurantId, reservationContext.simulatedUserPhone, userMsg.text)
+        : null;
+      if (reminderReply) {
+        const stats = ReservationEngine.getStats(restaurantId, reservationContext.simulatedUserPhone);
+        setReservationContext(prev => ({ ...prev, hasActiveReservation: stats.hasActive, activeReservationCount: stats.count }));
+        const replyMsg: ChatMessage = { id: (Date.now() + 1).toString(), role: 'model', text: reminderReply.text, timestamp: Date.now() };
+        setMessages(prev => [...prev, replyMsg]);
+        return;
+      }
+
       // API Key check
       const apiKey = getApiKey();
       if (!apiKey) {
@@ -260,14 +307,34 @@ const App: React.FC = () => {
         const action = parsedData.backend_action;
 
         // 2. EXECUTE ENGINE ACTION (REAL BACKEND SIMULATION)
-        // Handle Identity Logic for Modify/Cancel if ID is missing but we know the user
-        if ((action.type === 'update_reservation' || action.type === 'cancel_reservation') && !action.payload.reservation_id) {
-          const activeRes = ReservationRepository.getByPhone(restaurantId, reservationContext.simulatedUserPhone);
-          if (activeRes.length === 1) {
-            action.payload.reservation_id = activeRes[0].id;
+        // Handle Identity Logic for Modify/Cancel: the guest's reference code wins; otherwise
+        // fall back to the phone when it has a single active booking.
+        if (action.type === 'update_reservation' || action.type === 'cancel_reservation' || action.type === 'confirm_reservation') {
+          const ref = action.payload.reservation_code || action.payload.reservation_id;
+          const byRef = ref ? ReservationEngine.findByReference(restaurantId, ref) : undefined;
+          if (byRef) {
+            action.payload.reservation_id = byRef.id;
+          } else if (!action.payload.reservation_code) {
+            const activeRes = ReservationRepository.getByPhone(restaurantId, reservationContext.simulatedUserPhone);
+            if (activeRes.length === 1) {
+              action.payload.reservation_id = activeRes[0].id;
+            }
           }
         }
 
+        // Dates and times may come as the guest said them ("a las 9", "el viernes que viene"):
+        // resolve them once so table assignment and the engine work on the same slot.
+        action.payload = ReservationEngine.normalizeAction(action, {
+          restaurant_id: restaurantId,
+          phone: reservationContext.simulatedUserPhone
+        }).payload;
+
+        // The chat has no provider message id, so the key comes from what is asked: a retried
+        // or double-sent message (same guest, same action, same details) can't write twice.
+        if (action.type !== 'none' && !action.idempotency_key) {
+          action.idempotency_key = deriveIdempotencyKey(reservationContext.simulatedUserPhone, action);
+        }
+
         // 3. UPDATE FRONTEND STATE (derive nextState locally so we can pass it to the model)
         const nextState: ReservationState = {
           ...reservationState,
@@ -276,10 +343,18 @@ const App: React.FC = () => {
           party_size: newData.party_size || reservationState.party_size,
           name: newData.name || reservationState.name,
           notes: newData.notes || reservationState.notes,
+          special_requests: mergeSpecialRequests(reservationState.special_requests, newData.special_requests),
           pendingAction: reservationState.pendingAction
         };
 
-        if (action.type === 'create_reservation' || action.type === 'update_reservation' || action.type === 'cancel_reservation') {
+        // Structured extras collected over the conversation go with the booking if the action omits them.
+        if (action.type === 'create_reservation' && !action.payload.special_requests) {
+          action.payload.special_requests = nextState.special_requests;
+        } else if (action.type === 'update_reservation' && action.payload.changes && !action.payload.changes.special_requests && newData.special_requests) {
+          action.payload.changes.special_requests = newData.special_requests;
+        }
+
+        if (action.type === 'create_reservation' || action.type === 'update_reservation' || action.type === 'cancel_reservation' || action.type === 'confirm_reservation' || action.type === 'join_waitlist') {
           nextState.pendingAction = null;
         } else if (parsedIntent === 'cancel') {
           nextState.pendingAction = { type: 'cancel_reservation' };
@@ -295,7 +370,7 @@ const App: React.FC = () => {
         else if (!nextState.name) nextState.step = 'collect_name';
         else nextState.step = 'confirming';
 
-        if (['create_reservation', 'update_reservation', 'cancel_reservation'].includes(action.type)) {
+        if (['create_reservation', 'update_reservation', 'cancel_reservation', 'confirm_reservation', 'join_waitlist'].includes(action.type)) {
           nextState.step = 'done';
         }
 
@@ -314,24 +389,40 @@ const App: React.FC = () => {
                 normalized_time?: string;
                 message?: string;
                 data?: any;
+                seating_fallback?: string;
+                seating_matched?: boolean;
               };
 
-          const tryAssignTable = async (): Promise<{ ok: true } | { ok: false; alternatives: { date: string; time: string }[] }> => {
+          // Seating wishes ("terraza", "junto a la ventana") from the payload or the notes.
+          const seating = resolveSeating(action?.payload ?? {});
+
+          type TableCheck = {
+            ok: boolean;
+            reason?: "capacity" | "seating";
+            alternatives?: { date: string; time: string }[];
+            seatingFallback?: string; // Zone that does have room when a strict preference can't be met
+            seatingMatched?: boolean;
+          };
+
+          // With assign=false it only checks (used for check_availability).
+          const tryAssignTable = async (assign = true): Promise<TableCheck> => {
             if (!action?.payload?.date || !action?.payload?.time || !action?.payload?.party_size) return { ok: true };
             try {
               const state = await fetchTablesState(restaurantId);
               const reservations = ReservationRepository.getByDateAll(restaurantId, action.payload.date);
-              const table = pickTableForReservation(
+              const tableSet = pickTableForReservation(
                 restaurantId,
                 action.payload.date,
                 action.payload.time,
                 action.payload.party_size,
                 state.tables,
-                reservations
+                reservations,
+                undefined,
+                seating
               );
-              if (table) {
-                action.payload.table_id = table.id;
-                return { ok: true };
+              if (tableSet) {
+                if (assign) action.payload.table_ids = tableSet.map((t) => t.id);
+                return { ok: true, seatingMatched: seating ? tableSetMatchesSeating(tableSet, seating) : undefined };
               }
               const alternatives = suggestAlternativeTimesByTables(
                 restaurantId,
@@ -339,9 +430,22 @@ const App: React.FC = () => {
                 action.payload.time,
                 action.payload.party_size,
                 state.tables,
-                reservations
+                reservations,
+                2,
+                seating
               );
-              return { ok: false, alternatives };
+              if (seating?.strict) {
+                const fallback = pickTableForReservation(
+                  restaurantId,
+                  action.payload.date,
+                  action.payload.time,
+                  action.payload.party_size,
+                  state.tables,
+                  reservations
+                );
+                if (fallback) return { ok: false, reason: "seating", alternatives, seatingFallback: seatingZoneOf(fallback) };
+              }
+              return { ok: false, reason: "capacity", alternatives };
             } catch {
               // If tables API is not available/authenticated, allow booking without assignment.
               return { ok: true };
@@ -364,43 +468,74 @@ const App: React.FC = () => {
               const size = changes.party_size || current.partySize;
               const reservations = ReservationRepository.getByDateAll(restaurantId, date);
 
-              // Keep existing table if still valid.
-              if (current.table_id) {
-                const stillFree = listAvailableTablesForReservation(
+              // Keep existing tables if still valid.
+              if (current.table_ids?.length) {
+                const stillFree = isTableSetAvailable(
                   restaurantId,
                   date,
                   time,
                   size,
+                  current.table_ids,
                   state.tables,
                   reservations,
                   reservationId
-                ).some((t) => t.id === current.table_id);
+                );
                 if (stillFree) return;
               }
-              const next = pickTableForReservation(restaurantId, date, time, size, state.tables, reservations, reservationId);
+              const next = pickTableForReservation(
+                restaurantId,
+                date,
+                time,
+                size,
+                state.tables,
+                reservations,
+                reservationId,
+                resolveSeating(changes) ?? current.seating
+              );
               if (next) {
-                changes.table_id = next.id;
+                changes.table_ids = next.map((t) => t.id);
               }
             } catch {
               // ignore
             }
           };
 
-          if (action.type === "create_reservation") {
+          const tableFailure = (check: TableCheck) => ({
+            success: false,
+            availability: "not_available" as AvailabilityStatus,
+            reason: check.reason,
+            alternatives: check.alternatives ?? [],
+            seating_fallback: check.seatingFallback,
+            message:
+              check.reason === "seating"
+                ? "No table matches the seating preference; other seating is free at the requested time."
+                : "No table available for requested slot."
+          });
+
+          const engineCtx = { restaurant_id: restaurantId, phone: reservationContext.simulatedUserPhone };
+          if (action.type === "create_reservation" && ReservationEngine.findExistingReservation(action, engineCtx)) {
+            // Already booked (retry or double-sent message): return it without touching tables.
+            result = ReservationEngine.execute(action, engineCtx);
+          } else if (action.type === "create_reservation") {
             const assigned = await tryAssignTable();
             if (!assigned.ok) {
-              result = {
-                success: false,
-                availability: "not_available",
-                reason: "capacity",
-                alternatives: assigned.alternatives,
-                message: "No table available for requested slot."
-              };
+              result = tableFailure(assigned);
             } else {
               result = ReservationEngine.execute(action, {
                 restaurant_id: restaurantId,
                 phone: reservationContext.simulatedUserPhone
               });
+              if (result.success && assigned.seatingMatched === false) result = { ...result, seating_matched: false };
+            }
+          } else if (action.type === "check_availability" && seating) {
+            result = ReservationEngine.execute(action, {
+              restaurant_id: restaurantId,
+              phone: reservationContext.simulatedUserPhone
+            });
+            if (result.availability === "available") {
+              const checked = await tryAssignTable(false);
+              if (!checked.ok) result = tableFailure(checked);
+              else if (checked.seatingMatched === false) result = { ...result, seating_matched: false };
             }
           } else {
             await tryReassignTableOnUpdate();
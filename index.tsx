@@ -1,12 +1,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { startStoreSync } from './services/store/storeSync';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Shares the restaurant's data with the server, which sends reminders and serves the calendar feed.
+startStoreSync();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,42 @@
+import { fetchTablesState } from "../tables/tableApi";
+
+// Table id -> name, for the calendar entries. Empty when the tables can't be loaded.
+export async function fetchTableNames(restaurantId: string): Promise<Map<string, string>> {
+  try {
+    const state = await fetchTablesState(restaurantId);
+    return new Map(state.tables.map((t) => [t.id, t.name]));
+  } catch {
+    return new Map();
+  }
+}
+
+// Subscription URL with its access token; null when the server has the feed turned off
+// (no OWNER_AUTH_SECRET configured).
+export type CalendarFeedInfo = { url: string | null };
+
+const toFeedInfo = async (res: Response): Promise<CalendarFeedInfo> => {
+  if (!res.ok) throw new Error("Failed to load calendar feed.");
+  const data = (await res.json()) as { path?: string | null; disabled?: string };
+  if (data.disabled) return { url: null };
+  if (!data.path) throw new Error("Failed to load calendar feed.");
+  return { url: new URL(data.path, window.location.origin).toString() };
+};
+
+export async function fetchCalendarFeedInfo(restaurantId: string): Promise<CalendarFeedInfo> {
+  const res = await fetch(`/api/calendar/feed_info?rid=${encodeURIComponent(restaurantId)}`, {
+    method: "GET",
+    credentials: "include",
+  });
+  return toFeedInfo(res);
+}
+
+// Issues a new link; the old one stops working straight away.
+export async function rotateCalendarFeedToken(restaurantId: string): Promise<CalendarFeedInfo> {
+  const res = await fetch(`/api/calendar/rotate_token`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ rid: restaurantId }),
+  });
+  return toFeedInfo(res);
+}
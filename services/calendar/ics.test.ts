@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { expandEvent, icsCalendarName, parseIcs } from './ics';
+
+const ZONE = 'Europe/Madrid';
+
+const calendar = (...events: string[][]): string =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', 'X-WR-CALNAME:Festivos local', ...events.flat(), 'END:VCALENDAR'].join('\r\n');
+
+// Weekly Monday staff meeting, 10:00-12:00 Madrid time, from 5 October 2026.
+const SERIES = [
+  'BEGIN:VEVENT',
+  'UID:meeting@example.com',
+  'SUMMARY:Reunión',
+  'DTSTART;TZID=Europe/Madrid:20261005T100000',
+  'DTEND;TZID=Europe/Madrid:20261005T120000',
+  'RRULE:FREQ=WEEKLY;COUNT=6',
+  'END:VEVENT',
+];
+
+const override = (recurrenceId: string, lines: string[]): string[] => [
+  'BEGIN:VEVENT',
+  'UID:meeting@example.com',
+  `RECURRENCE-ID;TZID=Europe/Madrid:${recurrenceId}`,
+  ...lines,
+  'END:VEVENT',
+];
+
+const expand = (text: string) =>
+  parseIcs(text).flatMap((e) => expandEvent(e, '2026-10-01', '2026-12-31', ZONE)).map((o) => `${o.date} ${o.start}-${o.end}`).sort();
+
+describe('RECURRENCE-ID overrides', () => {
+  it('attaches them to their series', () => {
+    const events = parseIcs(calendar(SERIES, override('20261019T100000', ['DTSTART;TZID=Europe/Madrid:20261019T160000', 'DTEND;TZID=Europe/Madrid:20261019T170000'])));
+    expect(events).toHaveLength(1);
+    expect(events[0].overrides).toHaveLength(1);
+  });
+
+  it('replaces the occurrence they name', () => {
+    const text = calendar(
+      SERIES,
+      override('20261019T100000', ['DTSTART;TZID=Europe/Madrid:20261020T160000', 'DTEND;TZID=Europe/Madrid:20261020T170000'])
+    );
+    expect(expand(text)).toEqual([
+      '2026-10-05 10:00-12:00',
+      '2026-10-12 10:00-12:00',
+      '2026-10-20 16:00-17:00',
+      '2026-10-26 10:00-12:00',
+      '2026-11-02 10:00-12:00',
+      '2026-11-09 10:00-12:00',
+    ]);
+  });
+
+  it('drops a cancelled instance', () => {
+    const text = calendar(
+      SERIES,
+      override('20261026T100000', [
+        'DTSTART;TZID=Europe/Madrid:20261026T100000',
+        'DTEND;TZID=Europe/Madrid:20261026T120000',
+        'STATUS:CANCELLED',
+      ])
+    );
+    expect(expand(text)).not.toContain('2026-10-26 10:00-12:00');
+    expect(expand(text)).toHaveLength(5);
+  });
+
+  it('matches a UTC RECURRENCE-ID to the zoned occurrence', () => {
+    const text = calendar(SERIES, [
+      'BEGIN:VEVENT',
+      'UID:meeting@example.com',
+      'RECURRENCE-ID:20261102T090000Z',
+      'DTSTART;TZID=Europe/Madrid:20261102T130000',
+      'DTEND;TZID=Europe/Madrid:20261102T140000',
+      'END:VEVENT',
+    ]);
+    expect(expand(text)).toContain('2026-11-02 13:00-14:00');
+    expect(expand(text)).not.toContain('2026-11-02 10:00-12:00');
+  });
+
+  it('keeps an instance whose series is not in the file', () => {
+    const text = calendar(override('20261019T100000', ['DTSTART;TZID=Europe/Madrid:20261019T160000', 'DTEND;TZID=Europe/Madrid:20261019T170000']));
+    expect(expand(text)).toEqual(['2026-10-19 16:00-17:00']);
+  });
+});
+
+describe('icsCalendarName', () => {
+  it('reads X-WR-CALNAME', () => {
+    expect(icsCalendarName(calendar(SERIES))).toBe('Festivos local');
+    expect(icsCalendarName(SERIES.join('\r\n'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,451 @@
+import { addDaysISO, formatTimeInZone, isoDateInZone, isValidTimeZone, zonedTimeToEpochMs } from "../reservations/timezone";
+
+/**
+ * Minimal iCalendar (RFC 5545) support: enough to read holiday calendars and the
+ * restaurant's own calendar exports, and to write the reservations feed. Only VEVENTs
+ * are read; alarms, todos and VTIMEZONE definitions are skipped (TZID names are
+ * resolved as IANA zones).
+ */
+
+// A DTSTART/DTEND/EXDATE value. `time` is missing for all-day (VALUE=DATE) values.
+export interface IcsDateValue {
+  date: string; // YYYY-MM-DD as written
+  time?: string; // HH:MM as written
+  tzid?: string;
+  utc?: boolean;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary?: string;
+  status?: string;
+  start: IcsDateValue;
+  end?: IcsDateValue;
+  durationMin?: number;
+  rrule?: Record<string, string>;
+  exdates: IcsDateValue[];
+  // Set on an edited or cancelled instance of a series: the original start it replaces.
+  recurrenceId?: IcsDateValue;
+  // Such instances, attached to their series by parseIcs.
+  overrides: IcsEvent[];
+}
+
+// One occurrence in the restaurant's zone. All-day occurrences have no start/end time;
+// `endDate` is inclusive.
+export interface IcsOccurrence {
+  uid: string;
+  summary?: string;
+  date: string;
+  endDate: string;
+  start?: string;
+  end?: string;
+}
+
+const DAY_MS = 24 * 60 * 60_000;
+
+// Long lines are folded with CRLF + space/tab; joins them back.
+export function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((l) => l.trim().length > 0);
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// "DTSTART;TZID=Europe/Madrid:20261224T200000" -> name, params, value. Quoted params may hold ":" or ";".
+const parseLine = (line: string): ContentLine | null => {
+  let i = 0;
+  let inQuotes = false;
+  for (; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === ":" && !inQuotes) break;
+  }
+  if (i >= line.length) return null;
+  const [name, ...rawParams] = line.slice(0, i).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const eq = p.indexOf("=");
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+};
+
+const unescapeText = (v: string): string => v.replace(/\\([\\;,nN])/g, (_m, c: string) => (c === "n" || c === "N" ? "\n" : c));
+
+const parseDateValue = (value: string, params: Record<string, string>): IcsDateValue | null => {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const date = `${m[1]}-${m[2]}-${m[3]}`;
+  if (!addDaysISO(date, 0)) return null;
+  if (!m[4] || params.VALUE === "DATE") return { date };
+  return { date, time: `${m[4]}:${m[5]}`, tzid: params.TZID, utc: m[7] === "Z" };
+};
+
+// "PT2H30M", "P1D" -> minutes. Weeks and days count as whole days.
+const parseDuration = (value: string): number | undefined => {
+  const m = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return undefined;
+  const min = Number(m[2] ?? 0) * 7 * 1440 + Number(m[3] ?? 0) * 1440 + Number(m[4] ?? 0) * 60 + Number(m[5] ?? 0);
+  return m[1] === "-" ? undefined : min;
+};
+
+/**
+ * Reads the VEVENTs of a calendar file. Events without UID or a readable DTSTART are skipped.
+ * Instances with a RECURRENCE-ID are attached to their series as `overrides`; one whose
+ * series isn't in the file is returned as a plain event.
+ */
+export function parseIcs(text: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+  let depth = 0; // nested components inside a VEVENT (VALARM)
+
+  for (const raw of unfoldLines(text)) {
+    const line = parseLine(raw);
+    if (!line) continue;
+    const value = line.value.trim();
+
+    if (line.name === "BEGIN") {
+      if (value.toUpperCase() === "VEVENT" && !current) current = { exdates: [], overrides: [] };
+      else if (current) depth += 1;
+      continue;
+    }
+    if (line.name === "END") {
+      if (current && depth > 0) depth -= 1;
+      else if (current && value.toUpperCase() === "VEVENT") {
+        if (current.uid && current.start) events.push(current as IcsEvent);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || depth > 0) continue;
+
+    switch (line.name) {
+      case "UID":
+        current.uid = value;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(value);
+        break;
+      case "STATUS":
+        current.status = value.toUpperCase();
+        break;
+      case "DTSTART":
+        current.start = parseDateValue(value, line.params) ?? undefined;
+        break;
+      case "DTEND":
+        current.end = parseDateValue(value, line.params) ?? undefined;
+        break;
+      case "DURATION":
+        current.durationMin = parseDuration(value);
+        break;
+      case "RRULE":
+        current.rrule = {};
+        for (const part of value.split(";")) {
+          const [k, v] = part.split("=");
+          if (k && v) current.rrule[k.toUpperCase()] = v.toUpperCase();
+        }
+        break;
+      case "RECURRENCE-ID":
+        current.recurrenceId = parseDateValue(value, line.params) ?? undefined;
+        break;
+      case "EXDATE":
+        for (const v of value.split(",")) {
+          const d = parseDateValue(v, line.params);
+          if (d) current.exdates?.push(d);
+        }
+        break;
+    }
+  }
+
+  const series = new Map(events.filter((e) => !e.recurrenceId).map((e) => [e.uid, e]));
+  return events.filter((e) => {
+    const master = e.recurrenceId ? series.get(e.uid) : undefined;
+    if (master) master.overrides.push(e);
+    return !master;
+  });
+}
+
+// X-WR-CALNAME of the calendar, if it has one.
+export function icsCalendarName(text: string): string | undefined {
+  for (const raw of unfoldLines(text)) {
+    const line = parseLine(raw);
+    if (line?.name === "BEGIN" && line.value.trim().toUpperCase() === "VEVENT") return undefined;
+    if (line?.name === "X-WR-CALNAME") return unescapeText(line.value.trim()) || undefined;
+  }
+  return undefined;
+}
+
+// --- Recurrence -----------------------------------------------------------
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const dayNumber = (iso: string): number => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+const partsOf = (iso: string) => {
+  const [year, month, day] = iso.split("-").map(Number);
+  return { year, month, day, weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay() };
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const numberList = (v: string | undefined): number[] =>
+  (v ?? "")
+    .split(",")
+    .map(Number)
+    .filter((n) => Number.isInteger(n) && n !== 0);
+
+// "1MO", "-1SU", "MO" -> ordinal (0 = any) and weekday.
+const byDayList = (v: string | undefined): { n: number; weekday: number }[] =>
+  (v ?? "")
+    .split(",")
+    .map((s) => s.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/))
+    .filter((m): m is RegExpMatchArray => Boolean(m))
+    .map((m) => ({ n: m[1] ? Number(m[1]) : 0, weekday: WEEKDAY_CODES.indexOf(m[2]) }));
+
+// nth (1-based, negative from the end) occurrence of that weekday in the month.
+const isNthWeekdayOfMonth = (iso: string, n: number, weekday: number): boolean => {
+  const p = partsOf(iso);
+  if (p.weekday !== weekday) return false;
+  if (n === 0) return true;
+  if (n > 0) return Math.ceil(p.day / 7) === n;
+  return Math.ceil((daysInMonth(p.year, p.month) - p.day + 1) / 7) === -n;
+};
+
+const matchesMonthDay = (iso: string, monthDays: number[]): boolean => {
+  const p = partsOf(iso);
+  const last = daysInMonth(p.year, p.month);
+  return monthDays.some((d) => (d > 0 ? p.day === d : p.day === last + d + 1));
+};
+
+// Whether a date is an occurrence of the rule started on `start` (interval and BY* parts only).
+const matchesRule = (iso: string, start: string, rule: Record<string, string>): boolean => {
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  const p = partsOf(iso);
+  const s = partsOf(start);
+  const byDay = byDayList(rule.BYDAY);
+  const byMonthDay = numberList(rule.BYMONTHDAY);
+  const byMonth = numberList(rule.BYMONTH);
+  if (byMonth.length > 0 && !byMonth.includes(p.month)) return false;
+
+  switch (rule.FREQ) {
+    case "DAILY":
+      return (dayNumber(iso) - dayNumber(start)) % interval === 0 && (byDay.length === 0 || byDay.some((b) => b.weekday === p.weekday));
+    case "WEEKLY": {
+      // Weeks start on Monday (RFC default WKST).
+      const weekOf = (d: string) => Math.floor((dayNumber(d) - ((partsOf(d).weekday + 6) % 7)) / 7);
+      if ((weekOf(iso) - weekOf(start)) % interval !== 0) return false;
+      return byDay.length > 0 ? byDay.some((b) => b.weekday === p.weekday) : p.weekday === s.weekday;
+    }
+    case "MONTHLY": {
+      if (((p.year - s.year) * 12 + p.month - s.month) % interval !== 0) return false;
+      if (byDay.length > 0) return byDay.some((b) => isNthWeekdayOfMonth(iso, b.n, b.weekday)) && (byMonthDay.length === 0 || matchesMonthDay(iso, byMonthDay));
+      return matchesMonthDay(iso, byMonthDay.length > 0 ? byMonthDay : [s.day]);
+    }
+    case "YEARLY": {
+      if ((p.year - s.year) % interval !== 0) return false;
+      if (byMonth.length === 0 && p.month !== s.month) return false;
+      if (byDay.length > 0) return byDay.some((b) => isNthWeekdayOfMonth(iso, b.n, b.weekday)) && (byMonthDay.length === 0 || matchesMonthDay(iso, byMonthDay));
+      return matchesMonthDay(iso, byMonthDay.length > 0 ? byMonthDay : [s.day]);
+    }
+    default:
+      return false;
+  }
+};
+
+// Start dates (as written) of an event's occurrences up to `until`, before EXDATEs.
+const occurrenceDates = (event: IcsEvent, until: string, from: string): string[] => {
+  const start = event.start.date;
+  const rule = event.rrule;
+  if (!rule || !rule.FREQ) return start <= until ? [start] : [];
+
+  const count = Number(rule.COUNT) > 0 ? Number(rule.COUNT) : Number.POSITIVE_INFINITY;
+  const ruleUntil = rule.UNTIL ? parseDateValue(rule.UNTIL, {})?.date : undefined;
+  const last = ruleUntil && ruleUntil < until ? ruleUntil : until;
+  // Without COUNT there's nothing to tally, so old series can start at the window.
+  let day = Number.isFinite(count) || from <= start ? start : from;
+
+  const out: string[] = [];
+  let seen = 0;
+  while (day <= last && seen < count) {
+    if (day === start || matchesRule(day, start, rule)) {
+      out.push(day);
+      seen += 1;
+    }
+    day = addDaysISO(day, 1) as string;
+  }
+  return out;
+};
+
+// Instant (epoch ms) of a timed value; floating times are read in the fallback zone.
+const instantOf = (v: IcsDateValue, fallbackZone: string): number => {
+  const [h, m] = (v.time ?? "00:00").split(":").map(Number);
+  const zone = v.utc ? "UTC" : v.tzid && isValidTimeZone(v.tzid) ? v.tzid : fallbackZone;
+  return zonedTimeToEpochMs(v.date, h * 60 + m, zone);
+};
+
+/**
+ * Occurrences of an event that touch [from, to] (YYYY-MM-DD, inclusive), converted to
+ * the restaurant's zone. Cancelled events yield nothing. RRULE supports FREQ
+ * DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL, BYMONTH, BYMONTHDAY and BYDAY
+ * (including "1MO" / "-1SU"); EXDATE removes single occurrences.
+ *
+ * Each override takes the place of the occurrence its RECURRENCE-ID names: that occurrence
+ * is dropped and the override is expanded as a one-off (nothing if it's cancelled).
+ * RANGE=THISANDFUTURE is read as a single-instance override.
+ */
+export function expandEvent(event: IcsEvent, from: string, to: string, timeZone: string): IcsOccurrence[] {
+  const replaced = new Set(
+    event.overrides.flatMap((o) => (o.recurrenceId ? [occurrenceKey(o.recurrenceId, timeZone)] : []))
+  );
+  const own = event.status === "CANCELLED" ? [] : expandSeries(event, from, to, timeZone, replaced);
+  const moved = event.overrides.flatMap((o) => expandEvent({ ...o, rrule: undefined, overrides: [] }, from, to, timeZone));
+  return [...own, ...moved];
+}
+
+// An occurrence is named by its date when all-day, else by its instant.
+const occurrenceKey = (v: IcsDateValue, timeZone: string): string => (v.time ? String(instantOf(v, timeZone)) : v.date);
+
+const expandSeries = (event: IcsEvent, from: string, to: string, timeZone: string, replaced: Set<string>): IcsOccurrence[] => {
+  const allDay = !event.start.time;
+
+  // All-day DTEND is exclusive; a missing one means a single day.
+  const spanDays = allDay ? Math.max(1, event.end && !event.end.time ? dayNumber(event.end.date) - dayNumber(event.start.date) : 1) : 0;
+  const durationMs = allDay
+    ? 0
+    : event.end?.time
+      ? instantOf(event.end, timeZone) - instantOf(event.start, timeZone)
+      : (event.durationMin ?? 0) * 60_000;
+
+  const excluded = new Set(event.exdates.map((d) => d.date));
+  const out: IcsOccurrence[] = [];
+  // Start the search early enough to catch a multi-day occurrence already under way.
+  for (const date of occurrenceDates(event, to, addDaysISO(from, -Math.max(1, spanDays)) ?? from)) {
+    if (excluded.has(date) || replaced.has(occurrenceKey({ ...event.start, date }, timeZone))) continue;
+    if (allDay) {
+      const endDate = addDaysISO(date, spanDays - 1) as string;
+      if (endDate < from) continue;
+      out.push({ uid: event.uid, summary: event.summary, date, endDate });
+      continue;
+    }
+
+    const startMs = instantOf({ ...event.start, date }, timeZone);
+    const endMs = startMs + Math.max(0, durationMs);
+    const localDate = isoDateInZone(new Date(startMs), timeZone);
+    // A timed event with no end is an instant: nothing to close.
+    if (endMs <= startMs || localDate < from || localDate > to) continue;
+    // Anything longer than a day closes those days whole.
+    if (endMs - startMs >= DAY_MS) {
+      out.push({ uid: event.uid, summary: event.summary, date: localDate, endDate: isoDateInZone(new Date(endMs - 1), timeZone) });
+      continue;
+    }
+    out.push({
+      uid: event.uid,
+      summary: event.summary,
+      date: localDate,
+      endDate: localDate,
+      start: formatTimeInZone(startMs, timeZone),
+      end: formatTimeInZone(endMs, timeZone),
+    });
+  }
+  return out;
+};
+
+// --- Writing --------------------------------------------------------------
+
+// An event to publish. Times are instants (epoch ms) and are written in UTC.
+export interface IcsOutEvent {
+  uid: string;
+  // Bumped on every change so calendar apps replace their copy instead of keeping the old one.
+  sequence: number;
+  lastModified: number;
+  startMs: number;
+  endMs: number;
+  summary: string;
+  description?: string;
+  location?: string;
+  status: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+}
+
+export interface IcsCalendarInfo {
+  name: string;
+  timeZone?: string;
+  // How often subscribers should refresh, in minutes.
+  refreshMin?: number;
+}
+
+const escapeText = (v: string): string => v.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const utcStamp = (ms: number): string => new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets are folded (CRLF + space), never inside a UTF-8 character.
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const bytes = encoder.encode(ch).length;
+    // Continuation lines start with a space, which counts towards their 75.
+    if (size + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+/**
+ * Writes a calendar with the given events. `now` is the DTSTAMP of every event (when the
+ * file was produced). The output uses CRLF line endings as RFC 5545 requires.
+ */
+export function buildIcsCalendar(info: IcsCalendarInfo, events: IcsOutEvent[], now: Date = new Date()): string {
+  const stamp = utcStamp(now.getTime());
+  const refresh = `PT${Math.max(1, Math.round(info.refreshMin ?? 15))}M`;
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Reservas//Panel restaurante//ES",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(info.name)}`,
+    ...(info.timeZone ? [`X-WR-TIMEZONE:${info.timeZone}`] : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:${refresh}`,
+    `X-PUBLISHED-TTL:${refresh}`,
+  ];
+  for (const e of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${escapeText(e.uid)}`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${utcStamp(e.lastModified)}`,
+      `SEQUENCE:${Math.max(0, Math.trunc(e.sequence))}`,
+      `DTSTART:${utcStamp(e.startMs)}`,
+      `DTEND:${utcStamp(Math.max(e.endMs, e.startMs))}`,
+      `SUMMARY:${escapeText(e.summary)}`,
+      ...(e.description ? [`DESCRIPTION:${escapeText(e.description)}`] : []),
+      ...(e.location ? [`LOCATION:${escapeText(e.location)}`] : []),
+      `STATUS:${e.status}`,
+      // Bookings are not busy time for whoever subscribes.
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
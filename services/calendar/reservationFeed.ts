@@ -0,0 +1,87 @@
+import { CapacityConfig, Reservation } from "../reservations/types";
+import { getReservationSettings } from "../reservations/settings";
+import { ReservationRepository } from "../reservations/repository";
+import { serviceMinutesOf } from "../reservations/schedule";
+import { reservationDurationMin } from "../reservations/duration";
+import { isCancelledStatus, STATUS_LABELS } from "../reservations/lifecycle";
+import { AuditLog } from "../reservations/audit";
+import { describeSpecialRequests } from "../reservations/specialRequests";
+import { addDaysISO, getRestaurantTimeZone, isoDateInZone, zonedTimeToEpochMs } from "../reservations/timezone";
+import { RestaurantRepository } from "../restaurants/repository";
+import { buildIcsCalendar, IcsOutEvent } from "./ics";
+
+// Days before and after today that the subscribed feed carries.
+export const FEED_PAST_DAYS = 30;
+export const FEED_FUTURE_DAYS = 180;
+
+// Stable for the life of the booking: edits and cancellations update the same calendar entry.
+export const reservationUid = (r: Reservation): string => `reserva-${r.id}@${r.restaurant_id}`;
+
+/**
+ * One booking as a calendar entry, or null if its date or time can't be placed.
+ * The sequence counts the changes in its history, so each edit supersedes the last.
+ */
+export function reservationEvent(cfg: CapacityConfig, r: Reservation, tableNames: Map<string, string>): IcsOutEvent | null {
+  const timeZone = getRestaurantTimeZone(r.restaurant_id);
+  const startMs = zonedTimeToEpochMs(r.date, serviceMinutesOf(cfg, r.date, r.time), timeZone);
+  if (!Number.isFinite(startMs)) return null;
+  const endMs = startMs + reservationDurationMin(cfg, r) * 60_000;
+
+  const audit = AuditLog.listByReservation(r.restaurant_id, r.id);
+  const history = r.statusHistory ?? [];
+  const sequence = Math.max(audit.length, history.length) - 1;
+  const lastModified = Math.max(r.createdAt, ...history.map((h) => h.at), ...audit.map((e) => e.at));
+
+  const tables = (r.table_ids ?? []).map((id) => tableNames.get(id) ?? id).join(" + ");
+  const requests = describeSpecialRequests(r.requests);
+  const description = [
+    `Código: ${r.code}`,
+    `Personas: ${r.partySize}`,
+    `Mesa: ${tables || "sin asignar"}`,
+    `Estado: ${STATUS_LABELS[r.status]}`,
+    r.phone ? `Teléfono: ${r.phone}` : null,
+    requests.length > 0 ? `Peticiones: ${requests.join(", ")}` : null,
+    r.notes ? `Notas: ${r.notes}` : null,
+  ].filter((l): l is string => Boolean(l));
+
+  return {
+    uid: reservationUid(r),
+    sequence,
+    lastModified,
+    startMs,
+    endMs,
+    summary: `${r.name} · ${r.partySize} ${r.partySize === 1 ? "persona" : "personas"}${tables ? ` · ${tables}` : ""}`,
+    description: description.join("\n"),
+    location: tables || undefined,
+    status: isCancelledStatus(r.status) ? "CANCELLED" : r.status === "pending" ? "TENTATIVE" : "CONFIRMED",
+  };
+}
+
+/**
+ * Calendar file with every booking dated from `from` to `to` (inclusive), cancelled ones
+ * included so subscribers drop them. `tableNames` maps table ids to what the staff call them.
+ */
+export function exportReservationsIcs(
+  restaurantId: string,
+  from: string,
+  to: string,
+  tableNames: Map<string, string> = new Map(),
+  now: Date = new Date()
+): string {
+  const cfg = getReservationSettings(restaurantId);
+  const events = ReservationRepository.getAll(restaurantId)
+    .filter((r) => r.date >= from && r.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date) || serviceMinutesOf(cfg, a.date, a.time) - serviceMinutesOf(cfg, b.date, b.time))
+    .map((r) => reservationEvent(cfg, r, tableNames))
+    .filter((e): e is IcsOutEvent => Boolean(e));
+  const name = RestaurantRepository.getById(restaurantId)?.name ?? "Restaurante";
+  return buildIcsCalendar({ name: `Reservas · ${name}`, timeZone: getRestaurantTimeZone(restaurantId) }, events, now);
+}
+
+// The rolling window published to the subscription feed.
+export function exportReservationFeed(restaurantId: string, tableNames?: Map<string, string>, now: Date = new Date()): string {
+  const today = isoDateInZone(now, getRestaurantTimeZone(restaurantId));
+  const from = addDaysISO(today, -FEED_PAST_DAYS) ?? today;
+  const to = addDaysISO(today, FEED_FUTURE_DAYS) ?? today;
+  return exportReservationsIcs(restaurantId, from, to, tableNames, now);
+}
@@ -5,6 +5,11 @@ import { RestaurantRepository } from "./restaurants/repository";
 import { RestaurantConfigRepository } from "./restaurants/configRepository";
 import { MenuRepository } from "./menu/repository";
 import { ReservationRepository } from "./reservations/repository";
+import { WaitlistRepository } from "./reservations/waitlist";
+import { getReservationSettings } from "./reservations/settings";
+import { GuestRepository } from "./guests/repository";
+import { getRestaurantTimeZone, isoDateInZone } from "./reservations/timezone";
+import { findDateExpression } from "./reservations/dateParser";
 
 type SuggestedAlternative = { date: string; time: string };
 
@@ -104,8 +109,11 @@ export const generateResponse = async ({
   const menuCategories = MenuRepository.listCategories(restaurant_id);
   const menuItems = MenuRepository.listItems(restaurant_id);
   const activeReservations = ReservationRepository.getByPhone(restaurant_id, reservationContext.simulatedUserPhone);
+  const waitlistEntries = WaitlistRepository.listOpenByPhone(restaurant_id, reservationContext.simulatedUserPhone);
+  const { bookingRules, changePolicy } = getReservationSettings(restaurant_id);
+  const guest = GuestRepository.getSummary(restaurant_id, reservationContext.simulatedUserPhone);
   const now = new Date();
-  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  const timeZone = getRestaurantTimeZone(restaurant_id);
   const localNow = now.toLocaleString("es-ES", {
     timeZone,
     hour12: false,
@@ -115,6 +123,7 @@ export const generateResponse = async ({
     lastUserMessage ||
     [...history].reverse().find((m) => m.role === "user")?.text ||
     "";
+  const dateHint = latestUserText ? findDateExpression(latestUserText, isoDateInZone(now, timeZone)) : null;
   const mentionedAllergens = latestUserText ? detectAllergenMentions(latestUserText) : [];
   const mentionedItemsWithoutAllergenData = latestUserText
     ? detectMentionedItemsWithoutAllergenData(latestUserText, menuItems)
@@ -142,9 +151,30 @@ RESTAURANT (tenant):
 - restaurant_id: "${restaurant_id}"
 - name: "${restaurant.name}"
 - whatsapp_number_e164: "${restaurant.whatsapp_number_e164}"
+- booking_rules: ${JSON.stringify({
+    min_notice_min: bookingRules?.minNoticeMin || null,
+    max_horizon_days: bookingRules?.maxHorizonDays || null,
+    same_day_cutoff: bookingRules?.sameDayCutoff ?? null,
+  })}
+- change_policy: ${JSON.stringify({
+    cancel_cutoff_min: changePolicy?.cancelCutoffMin || null,
+    modify_cutoff_min: changePolicy?.modifyCutoffMin || null,
+    allow_late_cancel: Boolean(changePolicy?.allowLateCancel),
+  })}
 client:
 - phone: "${reservationContext.simulatedUserPhone}"
-- active_reservations: ${JSON.stringify(activeReservations.map(r => ({ id: r.id, date: r.date, time: r.time, partySize: r.partySize, name: r.name, notes: r.notes ?? null })))}
+- active_reservations: ${JSON.stringify(activeReservations.map(r => ({ id: r.id, code: r.code, date: r.date, time: r.time, partySize: r.partySize, name: r.name, notes: r.notes ?? null })))}
+- late_cancellations: ${guest.lateCancellations}
+- guest: ${JSON.stringify({
+    name: guest.name ?? null,
+    visits: guest.visits,
+    no_shows: guest.noShows,
+    last_visit: guest.lastVisit ?? null,
+    allergies: guest.allergies,
+    preferences: guest.preferences ?? null,
+    tags: guest.tags,
+  })}
+- waitlist: ${JSON.stringify(waitlistEntries.map(e => ({ date: e.date, time_from: e.timeFrom, time_to: e.timeTo, partySize: e.partySize, status: e.status, offered_time: e.offeredTime ?? null })))}
 `;
 
   const menuContext = `
@@ -184,7 +214,22 @@ INSTRUCCIÓN:
 - Responde al usuario usando este resultado.
 - No generes ni solicites nuevas acciones.
 - Si backendResult.data.time existe, usa esa hora como la hora final (no la inventes).
+- Si backendResult.data.code existe tras crear o modificar, incluye el código de reserva en la confirmación (ej. "Tu código de reserva es K7M2QX").
 - Si backendResult.reason es "out_of_hours" o "turn_end", indica de forma breve el horario del local (hours y/o shifts) y ofrece intentar otra hora dentro de ese rango.
+- Si backendResult.reason es "too_soon", di en una frase que se reserva con al menos booking_rules.min_notice_min minutos de antelación y ofrece las alternativas.
+- Si backendResult.reason es "same_day_cutoff", di que para hoy ya no se admiten reservas desde las booking_rules.same_day_cutoff y ofrece las alternativas de otros días.
+- Si backendResult.reason es "too_far", di que solo se reserva con hasta booking_rules.max_horizon_days días de antelación y que escriba más cerca de la fecha.
+- Si backendResult.reason es "cancel_cutoff", explica que ya no se puede cancelar por WhatsApp con menos de change_policy.cancel_cutoff_min minutos de antelación y que llame al restaurante.
+- Si backendResult.reason es "modify_cutoff", explica que ya no se puede cambiar la reserva con menos de change_policy.modify_cutoff_min minutos de antelación y que llame al restaurante.
+- Si backendResult.data.late_cancel es true, confirma la cancelación e indica con amabilidad que queda registrada como cancelación tardía (con menos de change_policy.cancel_cutoff_min minutos).
+- Si backendResult.duplicate es true, la reserva ya existía: confírmala con los datos de backendResult.data sin decir que se ha creado otra.
+- Si backendResult.reason es "special_request", explica con amabilidad que no podemos ofrecer lo pedido (backendResult.unsupported_request: "high_chair" = no tenemos tronas, "pets" = no se admiten mascotas, "terrace" = no tenemos terraza) y pregunta si quiere reservar sin ello.
+- Si backendResult.reason es "guest_restricted": si backendResult.restriction.kind es "limit_party", di con amabilidad que por WhatsApp solo podemos reservar hasta backendResult.restriction.max_party_size personas; si es "block", di que esta reserva hay que gestionarla por teléfono. En ambos casos invita a llamar al restaurante y NO menciones ausencias anteriores.
+- Si backendResult.success es true y backendResult.restriction.kind es "require_confirmation", di que la solicitud queda registrada y que el restaurante la confirmará en breve; NO digas que está confirmada ni menciones ausencias anteriores.
+- Si backendResult.reason es "closure", explica que a esa hora el local está cerrado por un cierre puntual (evento o turno cerrado), sin dar detalles, y ofrece las alternativas.
+- Si backendResult.reason es "pacing", explica en una frase que a esa hora ya llegan muchas mesas y ofrece las alternativas.
+- Si backendResult.reason es "seating", di que a esa hora no queda sitio con esa preferencia; si backendResult.seating_fallback existe, ofrece esa zona a la misma hora (ej. "no hay terraza a las 21:00, pero dentro sí") y, si hay, las alternativas.
+- Si backendResult.seating_matched es false, avisa en una frase de que no se ha podido garantizar la preferencia de mesa.
 ` : '';
 
   const backendLockContext = lockBackendAction ? `
@@ -195,15 +240,16 @@ REGLA ESTRICTA:
   const runtimeTimeContext = `
 TIEMPO ACTUAL (DINÁMICO):
 - now_local: "${localNow}"
+- today_local: "${isoDateInZone(now, timeZone)}"
 - now_utc: "${utcNow}"
 - timezone: "${timeZone}"
 
 REGLAS DE FECHA RELATIVA:
-- "hoy" = fecha local de now_local.
+- "hoy" = today_local (fecha en la zona horaria del restaurante).
 - "mañana" = now_local + 1 día.
 - "pasado mañana" = now_local + 2 días.
 - Si el usuario usa fecha relativa, conviértela a YYYY-MM-DD usando este contexto temporal.
-`;
+${dateHint ? `- date_hint: el último mensaje dice "${dateHint.text}" = ${dateHint.date}. Usa esa fecha tal cual en vez de calcularla.\n` : ''}`;
 
   const stateContext = `
 ESTADO ACTUAL:
@@ -212,6 +258,7 @@ ESTADO ACTUAL:
 - time: ${reservationState.time ?? "unknown"}
 - party_size: ${reservationState.party_size ?? "unknown"}
 - name: ${reservationState.name ?? "unknown"}
+- special_requests: ${JSON.stringify(reservationState.special_requests ?? {})}
 ${reservationState.pendingAction ? `\npending_action:\n- type: ${reservationState.pendingAction.type}` : ''}
 
 INSTRUCCIÓN:
@@ -0,0 +1,145 @@
+import { GuestProfile, GuestSummary } from "../../types";
+import { Reservation } from "../reservations/types";
+import { ReservationRepository } from "../reservations/repository";
+import { isActiveStatus, isCancelledStatus } from "../reservations/lifecycle";
+import { getReservationSettings } from "../reservations/settings";
+import { serviceMinutesOf } from "../reservations/schedule";
+import { getRestaurantTimeZone, zonedTimeToEpochMs } from "../reservations/timezone";
+import { storage, watchRemoteChanges } from "../store/storage";
+
+const STORAGE_KEY = "resto_bot_guests_v1";
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+watchRemoteChanges((key) => {
+  if (key === STORAGE_KEY) for (const l of listeners) l();
+});
+
+// Statuses that mean the guest actually turned up.
+const VISITED: Reservation["status"][] = ["arrived", "seated", "completed"];
+
+export const normalizePhone = (phone: string): string => String(phone ?? "").replace(/[^\d+]/g, "");
+
+const loadDB = (): GuestProfile[] => {
+  const raw = storage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as GuestProfile[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveDB = (data: GuestProfile[]) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(data));
+  for (const l of listeners) l();
+};
+
+const cleanList = (values?: string[]): string[] => {
+  const out = new Set<string>();
+  for (const v of values ?? []) {
+    const s = String(v).trim();
+    if (s) out.add(s);
+  }
+  return Array.from(out);
+};
+
+const emptyProfile = (restaurantId: string, phone: string): GuestProfile => ({
+  restaurant_id: restaurantId,
+  phone,
+  allergies: [],
+  tags: [],
+  updated_at: 0,
+});
+
+// Reservations grouped by normalized phone, for one restaurant.
+const reservationsByPhone = (restaurantId: string): Map<string, Reservation[]> => {
+  const out = new Map<string, Reservation[]>();
+  for (const r of ReservationRepository.getAll(restaurantId)) {
+    const phone = normalizePhone(r.phone);
+    if (!phone) continue;
+    const list = out.get(phone) ?? [];
+    list.push(r);
+    out.set(phone, list);
+  }
+  return out;
+};
+
+// Active bookings that haven't started yet, out of the guest's already grouped ones.
+const countUpcoming = (restaurantId: string, reservations: Reservation[], now: Date): number => {
+  const active = reservations.filter((r) => isActiveStatus(r.status));
+  if (active.length === 0) return 0;
+  const cfg = getReservationSettings(restaurantId);
+  const timeZone = getRestaurantTimeZone(restaurantId);
+  return active.filter((r) => zonedTimeToEpochMs(r.date, serviceMinutesOf(cfg, r.date, r.time), timeZone) >= now.getTime()).length;
+};
+
+const summarize = (profile: GuestProfile, reservations: Reservation[], now: Date): GuestSummary => {
+  const visited = reservations.filter((r) => VISITED.includes(r.status));
+  const latest = reservations.slice().sort((a, b) => b.createdAt - a.createdAt)[0];
+  return {
+    ...profile,
+    name: profile.name || latest?.name,
+    visits: visited.length,
+    noShows: reservations.filter((r) => r.status === "no_show").length,
+    cancellations: reservations.filter((r) => isCancelledStatus(r.status)).length,
+    lateCancellations: reservations.filter((r) => r.lateCancel).length,
+    lastVisit: visited.map((r) => r.date).sort().pop(),
+    upcoming: countUpcoming(profile.restaurant_id, reservations, now),
+  };
+};
+
+export const GuestRepository = {
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  getProfile: (restaurantId: string, phone: string): GuestProfile | undefined => {
+    const key = normalizePhone(phone);
+    return loadDB().find((g) => g.restaurant_id === restaurantId && g.phone === key);
+  },
+
+  // Stored profile merged with the guest's booking history (empty profile for first-timers).
+  getSummary: (restaurantId: string, phone: string, now: Date = new Date()): GuestSummary => {
+    const key = normalizePhone(phone);
+    const profile = GuestRepository.getProfile(restaurantId, key) ?? emptyProfile(restaurantId, key);
+    return summarize(profile, reservationsByPhone(restaurantId).get(key) ?? [], now);
+  },
+
+  // Everyone who booked or has a stored profile, most recent visitors first.
+  list: (restaurantId: string, now: Date = new Date()): GuestSummary[] => {
+    const byPhone = reservationsByPhone(restaurantId);
+    const profiles = new Map(loadDB().filter((g) => g.restaurant_id === restaurantId).map((g) => [g.phone, g]));
+    const phones = new Set<string>([...Array.from(byPhone.keys()), ...Array.from(profiles.keys())]);
+    return Array.from(phones)
+      .map((phone) => summarize(profiles.get(phone) ?? emptyProfile(restaurantId, phone), byPhone.get(phone) ?? [], now))
+      .sort((a, b) => (b.lastVisit ?? "").localeCompare(a.lastVisit ?? "") || b.visits - a.visits);
+  },
+
+  upsert: (
+    restaurantId: string,
+    phone: string,
+    patch: Partial<Pick<GuestProfile, "name" | "allergies" | "preferences" | "tags" | "restrictionLiftedAt">>
+  ): GuestProfile => {
+    const key = normalizePhone(phone);
+    if (!key) throw new Error("Guest phone is required.");
+    const db = loadDB();
+    const idx = db.findIndex((g) => g.restaurant_id === restaurantId && g.phone === key);
+    const prev = idx === -1 ? emptyProfile(restaurantId, key) : db[idx];
+    const next: GuestProfile = {
+      ...prev,
+      ...patch,
+      allergies: cleanList(patch.allergies ?? prev.allergies),
+      tags: cleanList(patch.tags ?? prev.tags),
+      preferences: (patch.preferences ?? prev.preferences)?.trim() || undefined,
+      name: (patch.name ?? prev.name)?.trim() || undefined,
+      updated_at: Date.now(),
+    };
+    if (idx === -1) db.push(next);
+    else db[idx] = next;
+    saveDB(db);
+    return next;
+  },
+};
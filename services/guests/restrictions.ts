@@ -0,0 +1,86 @@
+import { CapacityConfig, GuestRestrictionAction, Reservation } from "../reservations/types";
+import { ReservationRepository } from "../reservations/repository";
+import { statusChangedAt } from "../reservations/lifecycle";
+import { GuestRepository, normalizePhone } from "./repository";
+
+const DAY_MS = 24 * 60 * 60_000;
+
+export type GuestRestrictionOutcome =
+  | { kind: "none" }
+  | { kind: "require_confirmation"; noShows: number }
+  | { kind: "limit_party"; noShows: number; maxPartySize: number }
+  | { kind: "block"; noShows: number };
+
+export interface RestrictedGuest {
+  phone: string;
+  name?: string;
+  noShows: number;
+  lastNoShowAt: number; // epoch ms
+  action: GuestRestrictionAction;
+}
+
+// When the booking was marked as a no-show (older records fall back to their creation time).
+const noShowAt = (r: Reservation): number => statusChangedAt(r, "no_show") ?? r.createdAt;
+
+// No-shows that still count: inside the window and after the owner last lifted the restriction.
+function countingNoShows(cfg: CapacityConfig, restaurantId: string, phone: string, now: Date): Reservation[] {
+  const rules = cfg.guestRestrictions;
+  if (!rules || rules.noShowThreshold <= 0) return [];
+  const key = normalizePhone(phone);
+  const since = Math.max(now.getTime() - rules.windowDays * DAY_MS, GuestRepository.getProfile(restaurantId, key)?.restrictionLiftedAt ?? 0);
+  return ReservationRepository.getAll(restaurantId).filter(
+    (r) => r.status === "no_show" && normalizePhone(r.phone) === key && noShowAt(r) > since
+  );
+}
+
+/**
+ * Restriction that applies to a guest's new booking, if any. `limit_party` only bites
+ * when the party is larger than allowed.
+ */
+export function evaluateGuestRestriction(
+  cfg: CapacityConfig,
+  restaurantId: string,
+  phone: string,
+  partySize: number,
+  now: Date = new Date()
+): GuestRestrictionOutcome {
+  const rules = cfg.guestRestrictions;
+  const noShows = countingNoShows(cfg, restaurantId, phone, now).length;
+  if (!rules || rules.noShowThreshold <= 0 || noShows < rules.noShowThreshold) return { kind: "none" };
+
+  if (rules.action === "block") return { kind: "block", noShows };
+  if (rules.action === "limit_party") {
+    return partySize > rules.maxPartySize ? { kind: "limit_party", noShows, maxPartySize: rules.maxPartySize } : { kind: "none" };
+  }
+  return { kind: "require_confirmation", noShows };
+}
+
+// Guests currently over the no-show threshold, most recent offenders first.
+export function listRestrictedGuests(cfg: CapacityConfig, restaurantId: string, now: Date = new Date()): RestrictedGuest[] {
+  const rules = cfg.guestRestrictions;
+  if (!rules || rules.noShowThreshold <= 0) return [];
+
+  const phones = new Set<string>();
+  for (const r of ReservationRepository.getAll(restaurantId)) {
+    if (r.status === "no_show") phones.add(normalizePhone(r.phone));
+  }
+
+  const out: RestrictedGuest[] = [];
+  for (const phone of Array.from(phones)) {
+    const noShows = countingNoShows(cfg, restaurantId, phone, now);
+    if (noShows.length < rules.noShowThreshold) continue;
+    out.push({
+      phone,
+      name: GuestRepository.getProfile(restaurantId, phone)?.name ?? noShows[noShows.length - 1]?.name,
+      noShows: noShows.length,
+      lastNoShowAt: Math.max(...noShows.map(noShowAt)),
+      action: rules.action,
+    });
+  }
+  return out.sort((a, b) => b.lastNoShowAt - a.lastNoShowAt);
+}
+
+// Clears the current strikes; only no-shows after this moment count again.
+export function liftGuestRestriction(restaurantId: string, phone: string, now: Date = new Date()): void {
+  GuestRepository.upsert(restaurantId, phone, { restrictionLiftedAt: now.getTime() });
+}
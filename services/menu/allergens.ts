@@ -0,0 +1,22 @@
+// Allergen vocabulary shared by the menu and reservation requests (lowercase, Spanish).
+export const ALLERGEN_OPTIONS = [
+  "gluten",
+  "lactosa",
+  "huevo",
+  "frutos secos",
+  "cacahuete",
+  "soja",
+  "pescado",
+  "marisco",
+  "mostaza",
+  "sesamo",
+  "apio",
+  "sulfitos",
+  "altramuz",
+  "moluscos",
+] as const;
+
+export type Allergen = (typeof ALLERGEN_OPTIONS)[number];
+
+export const isAllergen = (v: unknown): v is Allergen =>
+  typeof v === "string" && (ALLERGEN_OPTIONS as readonly string[]).includes(v);
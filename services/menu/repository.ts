@@ -1,4 +1,5 @@
 import { MenuCategory, MenuItem } from "../../types";
+import { storage } from "../store/storage";
 
 const KEY_CATEGORIES = "resto_bot_menu_categories_v1";
 const KEY_ITEMS = "resto_bot_menu_items_v1";
@@ -6,7 +7,7 @@ const KEY_ITEMS = "resto_bot_menu_items_v1";
 const generateId = () => Math.random().toString(36).slice(2, 11);
 
 const load = <T,>(key: string): T[] => {
-  const raw = localStorage.getItem(key);
+  const raw = storage.getItem(key);
   if (!raw) return [];
   try {
     const parsed = JSON.parse(raw) as T[];
@@ -17,7 +18,7 @@ const load = <T,>(key: string): T[] => {
 };
 
 const save = (key: string, data: unknown[]) => {
-  localStorage.setItem(key, JSON.stringify(data));
+  storage.setItem(key, JSON.stringify(data));
 };
 
 const normalizeAllergens = (allergens?: string[]): string[] => {
@@ -0,0 +1,115 @@
+import { storage, watchRemoteChanges } from "../store/storage";
+
+const STORAGE_KEY = "resto_bot_outbox_v1";
+
+// Delivered messages are kept this long for reference; undelivered ones for longer.
+const DELIVERED_TTL_MS = 7 * 24 * 60 * 60_000;
+const PENDING_TTL_MS = 30 * 24 * 60 * 60_000;
+
+export interface OutboundMessage {
+  restaurant_id: string;
+  // What the message is about: a booking, or a waitlist entry for offers.
+  reservation_id?: string;
+  waitlist_entry_id?: string;
+  phone: string;
+  kind: "reminder" | "released" | "waitlist_offer";
+  text: string;
+}
+
+// Whatever delivers messages to guests (WhatsApp provider, the chat simulator, a test outbox).
+// A rejected send is retried on the next run.
+export interface OutboundMessagePort {
+  send(message: OutboundMessage): Promise<void>;
+}
+
+export interface InMemoryOutbox extends OutboundMessagePort {
+  messages: OutboundMessage[];
+  clear(): void;
+}
+
+// Keeps every message it is given, in order.
+export function createInMemoryOutbox(): InMemoryOutbox {
+  const messages: OutboundMessage[] = [];
+  return {
+    messages,
+    send: async (message) => {
+      messages.push(message);
+    },
+    clear: () => {
+      messages.length = 0;
+    },
+  };
+}
+
+export interface QueuedMessage extends OutboundMessage {
+  id: string;
+  queued_at: number;
+  delivered_at?: number;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+watchRemoteChanges((key) => {
+  if (key === STORAGE_KEY) for (const l of listeners) l();
+});
+
+const generateId = () => Math.random().toString(36).slice(2, 11);
+
+const loadDB = (): QueuedMessage[] => {
+  const raw = storage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as QueuedMessage[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveDB = (data: QueuedMessage[]) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(data));
+  for (const l of listeners) l();
+};
+
+const isStale = (m: QueuedMessage, nowMs: number): boolean =>
+  m.delivered_at ? nowMs - m.delivered_at > DELIVERED_TTL_MS : nowMs - m.queued_at > PENDING_TTL_MS;
+
+/**
+ * Messages waiting for whoever delivers them, kept with the rest of the restaurant's data
+ * so the server can queue them and the browser's chat simulator can pick up its own.
+ * Numbers nobody delivers to yet stay pending; queueing itself never fails.
+ */
+export const MessageOutbox = {
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  enqueue: (message: OutboundMessage, now: Date = new Date()): QueuedMessage => {
+    const nowMs = now.getTime();
+    const queued: QueuedMessage = { ...message, id: generateId(), queued_at: nowMs };
+    saveDB([...loadDB().filter((m) => !isStale(m, nowMs)), queued]);
+    return queued;
+  },
+
+  // Undelivered messages for a guest, oldest first.
+  pendingFor: (restaurantId: string, phone: string): QueuedMessage[] =>
+    loadDB()
+      .filter((m) => !m.delivered_at && m.restaurant_id === restaurantId && m.phone === phone)
+      .sort((a, b) => a.queued_at - b.queued_at),
+
+  markDelivered: (ids: string[], now: Date = new Date()): void => {
+    if (ids.length === 0) return;
+    const wanted = new Set(ids);
+    saveDB(loadDB().map((m) => (wanted.has(m.id) && !m.delivered_at ? { ...m, delivered_at: now.getTime() } : m)));
+  },
+};
+
+// Port that queues every message in the stored outbox.
+export function createStoredOutbox(now: () => Date = () => new Date()): OutboundMessagePort {
+  return {
+    send: async (message) => {
+      MessageOutbox.enqueue(message, now());
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { AuditActor, AuditChannel, AuditEntry, FieldChange, Reservation } from "./types";
+import { storage } from "../store/storage";
+
+const STORAGE_KEY = "resto_bot_reservation_audit_v1";
+
+// Fields worth showing in a reservation's history (ids and bookkeeping are left out).
+const TRACKED_FIELDS: (keyof Reservation)[] = [
+  "name",
+  "phone",
+  "date",
+  "time",
+  "partySize",
+  "durationMin",
+  "table_ids",
+  "seating",
+  "requests",
+  "notes",
+  "source",
+  "status",
+  "lateCancel",
+  "guestConfirmedAt",
+];
+
+const generateId = () => Math.random().toString(36).slice(2, 11);
+
+const loadDB = (): AuditEntry[] => {
+  const raw = storage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as AuditEntry[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveDB = (data: AuditEntry[]) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(data));
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Before/after of every tracked field that differs. `before` null = the reservation is new.
+export function diffReservation(before: Reservation | null | undefined, after: Reservation): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const field of TRACKED_FIELDS) {
+    const prev = before ? before[field] : undefined;
+    if (!sameValue(prev, after[field])) changes[field] = { before: prev ?? null, after: after[field] ?? null };
+  }
+  return changes;
+}
+
+export interface AuditSource {
+  actor: AuditActor;
+  channel: AuditChannel;
+}
+
+// Entries are only ever appended; nothing here edits or removes them.
+export const AuditLog = {
+  listByReservation: (restaurantId: string, reservationId: string): AuditEntry[] => {
+    return loadDB()
+      .filter((e) => e.restaurant_id === restaurantId && e.reservation_id === reservationId)
+      .sort((a, b) => a.at - b.at);
+  },
+
+  /**
+   * Records the difference between two versions of a reservation.
+   * Nothing is written when no tracked field changed.
+   */
+  record: (
+    source: AuditSource,
+    before: Reservation | null | undefined,
+    after: Reservation | null | undefined,
+    now: Date = new Date()
+  ): AuditEntry | null => {
+    if (!after) return null;
+    const changes = diffReservation(before, after);
+    if (Object.keys(changes).length === 0) return null;
+
+    const entry: AuditEntry = {
+      id: generateId(),
+      restaurant_id: after.restaurant_id,
+      reservation_id: after.id,
+      at: now.getTime(),
+      actor: source.actor,
+      channel: source.channel,
+      action: !before ? "created" : Object.keys(changes).every((f) => f === "status" || f === "lateCancel" || f === "guestConfirmedAt") ? "status_changed" : "updated",
+      changes,
+    };
+    const db = loadDB();
+    db.push(entry);
+    saveDB(db);
+    return entry;
+  },
+};
@@ -1,36 +1,19 @@
 import { ReservationRepository } from './repository';
-import { AvailabilityResult, AvailabilityReason } from './types';
+import { AvailabilityResult, AvailabilityReason, OpeningRange } from './types';
 import { getReservationSettings } from "./settings";
-import { minutesToHHMM, parseTimeToMinutes, roundToSlot } from "./timeSlots";
+import { minutesToHHMM, roundToSlot } from "./timeSlots";
+import { blocksOverlapping, closureAt, findShift, getBookableHoursForDate, isClosedOnDate, serviceMinutesOf, shiftBounds } from "./schedule";
+import { resolveDurationMin } from "./duration";
+import { occupancyWindow } from "./lifecycle";
+import { addDaysISO, getRestaurantTimeZone } from "./timezone";
+import { bookingWindowReason, earliestStartMin } from "./bookingWindow";
 
 /**
- * Finds the shift (opening hour range) that contains the requested time.
- * We consider "contained" if the time is >= start and < end.
+ * Finds the shift of that specific date that contains the requested time.
+ * Closed parts of the day (closures) are not part of any shift here.
  */
-const getShift = (cfg: ReturnType<typeof getReservationSettings>, timeMin: number) => {
-  return cfg.openingHours.find(range => {
-    const start = parseTimeToMinutes(range.start);
-    const end = parseTimeToMinutes(range.end);
-    return timeMin >= start && timeMin < end;
-  });
-};
-
-const toISODateLocal = (d: Date): string => {
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  return `${y}-${m}-${day}`;
-};
-
-const parseISODateLocal = (date: string): Date | null => {
-  const m = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  if (!m) return null;
-  const y = Number(m[1]);
-  const mo = Number(m[2]);
-  const d = Number(m[3]);
-  const dt = new Date(y, mo - 1, d);
-  if (dt.getFullYear() !== y || dt.getMonth() !== mo - 1 || dt.getDate() !== d) return null;
-  return dt;
+const getShift = (cfg: ReturnType<typeof getReservationSettings>, date: string, timeMin: number) => {
+  return findShift(getBookableHoursForDate(cfg, date), timeMin);
 };
 
 /**
@@ -48,99 +31,230 @@ const checkCapacity = (
 ): boolean => {
   const reqEnd = reqStart + duration + cfg.bufferMin;
 
-  // Get existing reservations for that date
-  const existing = ReservationRepository.getByDate(restaurantId, date);
+  // Get existing reservations for that date; cancelled / no-show ones hold no seats
+  // and completed ones only until they were closed.
+  const existing = ReservationRepository.getByDateAll(restaurantId, date);
 
   let currentLoad = 0;
 
   for (const r of existing) {
     if (excludeReservationId && r.id === excludeReservationId) continue;
 
-    const rStart = parseTimeToMinutes(r.time);
-    const rEnd = rStart + cfg.standardDurationMin + cfg.bufferMin;
+    const w = occupancyWindow(cfg, r);
+    if (!w) continue;
 
     // Check overlap: (StartA < EndB) and (EndA > StartB)
-    if (reqStart < rEnd && reqEnd > rStart) {
+    if (reqStart < w.endMin && reqEnd > w.startMin) {
       currentLoad += r.partySize;
     }
   }
 
+  // Seats held for private events in the window.
+  for (const b of blocksOverlapping(cfg, date, reqStart, reqEnd)) {
+    currentLoad += b.seats;
+  }
+
   return (cfg.totalCapacity - currentLoad) >= partySize;
 };
 
 /**
- * Main function to check availability and suggest alternatives
+ * Arrival pacing: limits new covers / reservations starting in the same slot,
+ * so the kitchen doesn't get every ticket at once.
+ * A party larger than the cover limit can still open an empty slot.
  */
-export const AvailabilityService = {
-  check: (restaurantId: string, date: string, time: string, partySize: number, excludeReservationId?: string): AvailabilityResult => {
-    const cfg = getReservationSettings(restaurantId);
-    const rawMin = parseTimeToMinutes(time);
-    const roundedMin = roundToSlot(rawMin, cfg.slotIntervalMin, cfg.slotRounding);
-    const timeMin = roundedMin;
-
-    const rawHHMM = Number.isFinite(rawMin) ? minutesToHHMM(rawMin) : null;
-    const roundedHHMM = Number.isFinite(roundedMin) ? minutesToHHMM(roundedMin) : null;
-    const normalized_time = rawHHMM && roundedHHMM && rawHHMM !== roundedHHMM ? roundedHHMM : undefined;
-
-    // --- VALIDATION 1: Closed Dates ---
-    if (cfg.closedDates?.includes(date)) {
-      return {
-        status: 'not_available',
-        reason: 'closed',
-        alternatives: findNextDayAlternatives(restaurantId, date, timeMin, partySize, excludeReservationId),
-        normalized_time
-      };
-    }
-    
-    // --- VALIDATION 2: Max Party Size ---
-    if (partySize > cfg.maxPartySize) {
-      return { 
-        status: 'not_available', 
-        reason: 'max_party', 
-        alternatives: [], // No alternatives for groups that are too big
-        normalized_time
-      };
-    }
+const checkPacing = (
+  restaurantId: string,
+  cfg: ReturnType<typeof getReservationSettings>,
+  date: string,
+  reqStart: number,
+  partySize: number,
+  excludeReservationId?: string
+): boolean => {
+  const maxCovers = cfg.pacing?.maxCoversPerSlot ?? 0;
+  const maxReservations = cfg.pacing?.maxReservationsPerSlot ?? 0;
+  if (maxCovers <= 0 && maxReservations <= 0) return true;
 
-    // --- VALIDATION 3: Out of Hours ---
-    const activeShift = getShift(cfg, timeMin);
-    if (!activeShift) {
-      return {
-        status: 'not_available',
-        reason: 'out_of_hours',
-        alternatives: findOutOfHoursAlternatives(restaurantId, date, timeMin, partySize, excludeReservationId),
-        normalized_time
-      };
-    }
+  const slot = Math.floor(reqStart / cfg.slotIntervalMin);
+  let covers = 0;
+  let count = 0;
 
-    // --- VALIDATION 4: Turn End / Duration ---
-    const shiftEndMin = parseTimeToMinutes(activeShift.end);
-    const bookingEndMin = timeMin + cfg.standardDurationMin;
-    
-    if (bookingEndMin > shiftEndMin) {
-      // If the booking goes beyond closing time, we treat it as unavailable
-      // But we CAN suggest alternatives earlier in the shift
-      return {
-        status: 'not_available',
-        reason: 'turn_end',
-        alternatives: findSmartAlternatives(restaurantId, date, timeMin, partySize, activeShift, excludeReservationId),
-        normalized_time
-      };
-    }
+  // Completed tables still arrived in their slot, so they count towards pacing.
+  for (const r of ReservationRepository.getByDateAll(restaurantId, date)) {
+    if (excludeReservationId && r.id === excludeReservationId) continue;
+    if (!occupancyWindow(cfg, r)) continue;
+    const rStart = serviceMinutesOf(cfg, date, r.time);
+    if (Math.floor(rStart / cfg.slotIntervalMin) !== slot) continue;
+    covers += r.partySize;
+    count += 1;
+  }
 
-    // --- VALIDATION 5: Capacity ---
-    const hasSpace = checkCapacity(restaurantId, cfg, date, timeMin, cfg.standardDurationMin, partySize, excludeReservationId);
+  if (maxReservations > 0 && count + 1 > maxReservations) return false;
+  if (maxCovers > 0 && count > 0 && covers + partySize > maxCovers) return false;
+  return true;
+};
 
-    if (hasSpace) {
-      return { status: 'available', alternatives: [], normalized_time };
-    } else {
-      return {
-        status: 'not_available',
-        reason: 'capacity',
-        alternatives: findSmartAlternatives(restaurantId, date, timeMin, partySize, activeShift, excludeReservationId),
-        normalized_time
-      };
-    }
+// A candidate slot is bookable when both room capacity and arrival pacing allow it.
+const fitsSlot = (
+  restaurantId: string,
+  cfg: ReturnType<typeof getReservationSettings>,
+  date: string,
+  reqStart: number,
+  duration: number,
+  partySize: number,
+  excludeReservationId?: string
+): boolean =>
+  checkCapacity(restaurantId, cfg, date, reqStart, duration, partySize, excludeReservationId) &&
+  checkPacing(restaurantId, cfg, date, reqStart, partySize, excludeReservationId);
+
+/**
+ * Checks one requested slot against the rules, in order, and suggests alternatives.
+ */
+const checkSlot = (
+  restaurantId: string,
+  date: string,
+  time: string,
+  partySize: number,
+  excludeReservationId: string | undefined,
+  now: Date
+): AvailabilityResult => {
+  const cfg = getReservationSettings(restaurantId);
+  // Service-day minutes: "00:30" in a 20:00-02:00 shift is 1470 of the previous evening's date.
+  const rawMin = serviceMinutesOf(cfg, date, time);
+  const roundedMin = roundToSlot(rawMin, cfg.slotIntervalMin, cfg.slotRounding);
+  const timeMin = roundedMin;
+
+  const rawHHMM = Number.isFinite(rawMin) ? minutesToHHMM(rawMin) : null;
+  const roundedHHMM = Number.isFinite(roundedMin) ? minutesToHHMM(roundedMin) : null;
+  const normalized_time = rawHHMM && roundedHHMM && rawHHMM !== roundedHHMM ? roundedHHMM : undefined;
+
+  // --- VALIDATION 0: Booking window (minimum notice, same-day cutoff, horizon) ---
+  const timeZone = getRestaurantTimeZone(restaurantId);
+  const windowReason = bookingWindowReason(cfg, timeZone, date, timeMin, now);
+  if (windowReason === 'too_soon') {
+    const earliest = Math.max(timeMin, earliestStartMin(cfg, timeZone, date, now));
+    return {
+      status: 'not_available',
+      reason: 'too_soon',
+      alternatives: findOutOfHoursAlternatives(restaurantId, date, earliest, partySize, excludeReservationId),
+      normalized_time
+    };
+  }
+  if (windowReason === 'same_day_cutoff') {
+    return {
+      status: 'not_available',
+      reason: 'same_day_cutoff',
+      alternatives: findNextDayAlternatives(restaurantId, date, timeMin, partySize, excludeReservationId),
+      normalized_time
+    };
+  }
+  if (windowReason === 'too_far') {
+    return { status: 'not_available', reason: 'too_far', alternatives: [], normalized_time };
+  }
+
+  // --- VALIDATION 1: Closed Dates (holidays, whole-day closures, weekdays without shifts) ---
+  if (isClosedOnDate(cfg, date)) {
+    return {
+      status: 'not_available',
+      reason: 'closed',
+      alternatives: findNextDayAlternatives(restaurantId, date, timeMin, partySize, excludeReservationId),
+      normalized_time
+    };
+  }
+  
+  // --- VALIDATION 2: Max Party Size ---
+  if (partySize > cfg.maxPartySize) {
+    return { 
+      status: 'not_available', 
+      reason: 'max_party', 
+      alternatives: [], // No alternatives for groups that are too big
+      normalized_time
+    };
+  }
+
+  // --- VALIDATION 3: Partial closures (private event, one shift closed) ---
+  if (closureAt(cfg, date, timeMin)) {
+    return {
+      status: 'not_available',
+      reason: 'closure',
+      alternatives: findOutOfHoursAlternatives(restaurantId, date, timeMin, partySize, excludeReservationId),
+      normalized_time
+    };
+  }
+
+  // --- VALIDATION 4: Out of Hours ---
+  const activeShift = getShift(cfg, date, timeMin);
+  if (!activeShift) {
+    return {
+      status: 'not_available',
+      reason: 'out_of_hours',
+      alternatives: findOutOfHoursAlternatives(restaurantId, date, timeMin, partySize, excludeReservationId),
+      normalized_time
+    };
+  }
+
+  // --- VALIDATION 5: Turn End / Duration ---
+  const shiftEndMin = shiftBounds(activeShift).endMin;
+  const durationMin = resolveDurationMin(cfg, partySize, activeShift);
+  const bookingEndMin = timeMin + durationMin;
+  
+  if (bookingEndMin > shiftEndMin) {
+    // If the booking goes beyond closing time, we treat it as unavailable
+    // But we CAN suggest alternatives earlier in the shift
+    return {
+      status: 'not_available',
+      reason: 'turn_end',
+      alternatives: findSmartAlternatives(restaurantId, date, timeMin, partySize, activeShift, excludeReservationId),
+      normalized_time
+    };
+  }
+
+  // --- VALIDATION 6: Capacity ---
+  const hasSpace = checkCapacity(restaurantId, cfg, date, timeMin, durationMin, partySize, excludeReservationId);
+
+  if (!hasSpace) {
+    return {
+      status: 'not_available',
+      reason: 'capacity',
+      alternatives: findSmartAlternatives(restaurantId, date, timeMin, partySize, activeShift, excludeReservationId),
+      normalized_time
+    };
+  }
+
+  // --- VALIDATION 7: Arrival Pacing ---
+  if (!checkPacing(restaurantId, cfg, date, timeMin, partySize, excludeReservationId)) {
+    return {
+      status: 'not_available',
+      reason: 'pacing',
+      alternatives: findSmartAlternatives(restaurantId, date, timeMin, partySize, activeShift, excludeReservationId),
+      normalized_time
+    };
+  }
+
+  return { status: 'available', alternatives: [], normalized_time };
+};
+
+/**
+ * Main function to check availability and suggest alternatives
+ */
+export const AvailabilityService = {
+  check: (
+    restaurantId: string,
+    date: string,
+    time: string,
+    partySize: number,
+    excludeReservationId?: string,
+    now: Date = new Date()
+  ): AvailabilityResult => {
+    const result = checkSlot(restaurantId, date, time, partySize, excludeReservationId, now);
+    if (result.status === 'available') return result;
+
+    // Never suggest a slot the booking window would reject right away.
+    const cfg = getReservationSettings(restaurantId);
+    const timeZone = getRestaurantTimeZone(restaurantId);
+    const alternatives = result.alternatives.filter(
+      (a) => bookingWindowReason(cfg, timeZone, a.date, serviceMinutesOf(cfg, a.date, a.time), now) === null
+    );
+    return { ...result, alternatives };
   }
 };
 
@@ -153,27 +267,27 @@ function findSmartAlternatives(
   date: string,
   reqTimeMin: number,
   partySize: number,
-  shift: { start: string, end: string },
+  shift: OpeningRange,
   excludeReservationId?: string
 ): { date: string; time: string }[] {
   const cfg = getReservationSettings(restaurantId);
   
-  const shiftStartMin = parseTimeToMinutes(shift.start);
-  const shiftEndMin = parseTimeToMinutes(shift.end);
+  const { startMin: shiftStartMin, endMin: shiftEndMin } = shiftBounds(shift);
+  const durationMin = resolveDurationMin(cfg, partySize, shift);
   const candidates: number[] = [];
   
   // Generate all possible slots in the shift based on interval
   // We ensure the slot allows the full duration before shift end
-  for (let t = shiftStartMin; t <= shiftEndMin - cfg.standardDurationMin; t += cfg.slotIntervalMin) {
+  for (let t = shiftStartMin; t <= shiftEndMin - durationMin; t += cfg.slotIntervalMin) {
     // Exclude the exact requested time (since we know it failed or is invalid)
     if (t !== reqTimeMin) {
       candidates.push(t);
     }
   }
 
-  // Filter candidates by Capacity
+  // Filter candidates by Capacity and arrival pacing
   const validCandidates = candidates.filter(t => 
-    checkCapacity(restaurantId, cfg, date, t, cfg.standardDurationMin, partySize, excludeReservationId)
+    fitsSlot(restaurantId, cfg, date, t, durationMin, partySize, excludeReservationId)
   );
 
   // Sort:
@@ -209,24 +323,25 @@ function findNextDayAlternatives(
 ): { date: string; time: string }[] {
   const cfg = getReservationSettings(restaurantId);
   const alternatives: { date: string; time: string }[] = [];
-  const current = parseISODateLocal(startDate);
-  if (!current) return alternatives;
+  if (!addDaysISO(startDate, 0)) return alternatives;
   
   // Try next 7 days
-  for (let i = 0; i < 7; i++) {
+  for (let i = 1; i <= 7; i++) {
     if (alternatives.length >= 2) break;
     
-    current.setDate(current.getDate() + 1);
-    const nextDate = toISODateLocal(current);
+    const nextDate = addDaysISO(startDate, i) as string;
     
     // Check if closed
-    if (cfg.closedDates?.includes(nextDate)) continue;
+    if (isClosedOnDate(cfg, nextDate)) continue;
     
-    // Check if time is valid in generic hours
-    if (!getShift(cfg, timeMin)) continue;
+    // Check if time is valid in that day's hours (including the shift end)
+    const shift = getShift(cfg, nextDate, timeMin);
+    if (!shift) continue;
+    const durationMin = resolveDurationMin(cfg, partySize, shift);
+    if (timeMin + durationMin > shiftBounds(shift).endMin) continue;
 
     // Check capacity
-    const hasSpace = checkCapacity(restaurantId, cfg, nextDate, timeMin, cfg.standardDurationMin, partySize, excludeReservationId);
+    const hasSpace = fitsSlot(restaurantId, cfg, nextDate, timeMin, durationMin, partySize, excludeReservationId);
     
     if (hasSpace) {
       alternatives.push({ date: nextDate, time: minutesToHHMM(timeMin) });
@@ -246,14 +361,14 @@ function getAvailableSlotsOnDate(
   const cfg = getReservationSettings(restaurantId);
   const slots: number[] = [];
 
-  for (const shift of cfg.openingHours) {
-    const shiftStart = parseTimeToMinutes(shift.start);
-    const shiftEnd = parseTimeToMinutes(shift.end);
-    const latestStart = shiftEnd - cfg.standardDurationMin;
+  for (const shift of getBookableHoursForDate(cfg, date)) {
+    const { startMin: shiftStart, endMin: shiftEnd } = shiftBounds(shift);
+    const durationMin = resolveDurationMin(cfg, partySize, shift);
+    const latestStart = shiftEnd - durationMin;
     const start = Math.max(shiftStart, minStartMin ?? shiftStart);
 
     for (let t = start; t <= latestStart; t += cfg.slotIntervalMin) {
-      if (checkCapacity(restaurantId, cfg, date, t, cfg.standardDurationMin, partySize, excludeReservationId)) {
+      if (fitsSlot(restaurantId, cfg, date, t, durationMin, partySize, excludeReservationId)) {
         slots.push(t);
       }
     }
@@ -272,8 +387,7 @@ function findOutOfHoursAlternatives(
 ): { date: string; time: string }[] {
   const cfg = getReservationSettings(restaurantId);
   const alternatives: { date: string; time: string }[] = [];
-  const baseDate = parseISODateLocal(date);
-  if (!baseDate) return alternatives;
+  if (!addDaysISO(date, 0)) return alternatives;
 
   const sameDaySlots = getAvailableSlotsOnDate(
     restaurantId,
@@ -289,10 +403,8 @@ function findOutOfHoursAlternatives(
   }
 
   for (let i = 1; i <= 7 && alternatives.length < 2; i++) {
-    const next = new Date(baseDate.getFullYear(), baseDate.getMonth(), baseDate.getDate());
-    next.setDate(next.getDate() + i);
-    const nextDate = toISODateLocal(next);
-    if (cfg.closedDates?.includes(nextDate)) continue;
+    const nextDate = addDaysISO(date, i) as string;
+    if (isClosedOnDate(cfg, nextDate)) continue;
 
     const daySlots = getAvailableSlotsOnDate(restaurantId, nextDate, partySize, undefined, excludeReservationId);
     for (const t of daySlots) {
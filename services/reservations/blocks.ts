@@ -0,0 +1,89 @@
+import type { RestaurantTable } from "../../types";
+import { CapacityBlock, Reservation } from "./types";
+import { getReservationSettings, updateReservationSettings } from "./settings";
+import { ReservationRepository } from "./repository";
+import { blockWindow, serviceMinutesOf } from "./schedule";
+import { reservationDurationMin } from "./duration";
+import { isActiveStatus } from "./lifecycle";
+import { parseTimeToMinutes } from "./timeSlots";
+import { seatsOf } from "./tableAssignment";
+import { addDaysISO } from "./timezone";
+
+const generateId = () => Math.random().toString(36).slice(2, 11);
+
+const sameZone = (a?: string, b?: string): boolean => (a || "").trim().toLowerCase() === (b || "").trim().toLowerCase();
+
+/**
+ * Owner-entered block as it comes from the form; throws on anything that can't be saved.
+ * A zone is held as the tables it has now. A block with tables holds the seats they have,
+ * otherwise `seats` is required.
+ */
+export function addBlock(
+  restaurantId: string,
+  input: Omit<CapacityBlock, "id" | "seats"> & { seats?: number },
+  tables: RestaurantTable[]
+): CapacityBlock {
+  const date = input.date?.trim();
+  if (!date || !addDaysISO(date, 0)) throw new Error("Invalid block date.");
+  const start = input.start?.trim();
+  const end = input.end?.trim();
+  if (!start || !end || !Number.isFinite(parseTimeToMinutes(start)) || !Number.isFinite(parseTimeToMinutes(end)) || start === end) {
+    throw new Error("Invalid block hours.");
+  }
+
+  const own = tables.filter((t) => t.restaurant_id === restaurantId);
+  const zone = input.zone?.trim() || undefined;
+  let held: RestaurantTable[] = [];
+  if (zone) {
+    held = own.filter((t) => sameZone(t.zone, zone));
+    if (held.length === 0) throw new Error("No tables in that zone.");
+  } else if (input.table_ids?.length) {
+    held = input.table_ids.map((id) => own.find((t) => t.id === id)).filter((t): t is RestaurantTable => Boolean(t));
+    if (held.length !== input.table_ids.length) throw new Error("Unknown table in block.");
+  }
+
+  const seats = held.length > 0 ? held.reduce((sum, t) => sum + seatsOf(t), 0) : Math.trunc(Number(input.seats));
+  if (!Number.isFinite(seats) || seats < 1) throw new Error("A block needs seats or tables.");
+
+  const block: CapacityBlock = {
+    id: generateId(),
+    date,
+    start,
+    end,
+    seats,
+    table_ids: held.length > 0 ? held.map((t) => t.id) : undefined,
+    zone,
+    label: input.label?.trim() || undefined,
+  };
+  const cfg = getReservationSettings(restaurantId);
+  updateReservationSettings(restaurantId, { blocks: [...(cfg.blocks ?? []), block] });
+  return block;
+}
+
+export function removeBlock(restaurantId: string, id: string): void {
+  const cfg = getReservationSettings(restaurantId);
+  updateReservationSettings(restaurantId, { blocks: (cfg.blocks ?? []).filter((b) => b.id !== id) });
+}
+
+/**
+ * Active bookings already at one of the block's tables during its window; they need
+ * moving before the event. Seats-only blocks have none. Sorted by time.
+ */
+export function findBlockConflicts(restaurantId: string, block: CapacityBlock): Reservation[] {
+  if (!block.table_ids?.length) return [];
+  const cfg = getReservationSettings(restaurantId);
+  const { startMin, endMin } = blockWindow(block);
+  return ReservationRepository.getByDateAll(restaurantId, block.date)
+    .filter((r) => isActiveStatus(r.status) && (r.table_ids ?? []).some((id) => block.table_ids?.includes(id)))
+    .filter((r) => {
+      const rStart = serviceMinutesOf(cfg, r.date, r.time);
+      if (!Number.isFinite(rStart)) return false;
+      return rStart < endMin && rStart + reservationDurationMin(cfg, r) > startMin;
+    })
+    .sort((a, b) => serviceMinutesOf(cfg, a.date, a.time) - serviceMinutesOf(cfg, b.date, b.time));
+}
+
+// One-line summary for the owner panel ("Cumpleaños: 20:00–22:00 · terraza · 12 plazas").
+export function describeBlock(b: CapacityBlock): string {
+  return `${b.label ? `${b.label}: ` : ""}${b.start}–${b.end} · ${b.zone ? `${b.zone} · ` : ""}${b.seats} ${b.seats === 1 ? "plaza" : "plazas"}`;
+}
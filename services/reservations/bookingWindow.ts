@@ -0,0 +1,47 @@
+import { AvailabilityReason, CapacityConfig } from "./types";
+import { parseTimeToMinutes } from "./timeSlots";
+import { addDaysISO, isoDateInZone, zonedParts, zonedTimeToEpochMs } from "./timezone";
+
+export type BookingWindowReason = Extract<AvailabilityReason, "too_soon" | "too_far" | "same_day_cutoff">;
+
+/**
+ * Earliest service-day minute on `date` that still respects the minimum notice
+ * (a booking can never start in the past).
+ */
+export function earliestStartMin(cfg: CapacityConfig, timeZone: string, date: string, now: Date): number {
+  const noticeMs = Math.max(0, cfg.bookingRules?.minNoticeMin ?? 0) * 60_000;
+  const dayStartMs = zonedTimeToEpochMs(date, 0, timeZone);
+  return Math.ceil((now.getTime() + noticeMs - dayStartMs) / 60_000);
+}
+
+/**
+ * Why a start time falls outside what the restaurant accepts right now, or null if it's fine.
+ * Checked in order: minimum notice, same-day cutoff, maximum horizon.
+ */
+export function bookingWindowReason(
+  cfg: CapacityConfig,
+  timeZone: string,
+  date: string,
+  startMin: number,
+  now: Date
+): BookingWindowReason | null {
+  if (!Number.isFinite(startMin)) return null;
+  const rules = cfg.bookingRules;
+
+  if (startMin < earliestStartMin(cfg, timeZone, date, now)) return "too_soon";
+
+  const today = isoDateInZone(now, timeZone);
+  const cutoffMin = rules?.sameDayCutoff ? parseTimeToMinutes(rules.sameDayCutoff) : Number.NaN;
+  if (date === today && Number.isFinite(cutoffMin)) {
+    const p = zonedParts(now, timeZone);
+    if (p.hour * 60 + p.minute >= cutoffMin) return "same_day_cutoff";
+  }
+
+  const maxDays = rules?.maxHorizonDays ?? 0;
+  if (maxDays > 0) {
+    const lastDate = addDaysISO(today, maxDays);
+    if (lastDate && date > lastDate) return "too_far";
+  }
+
+  return null;
+}
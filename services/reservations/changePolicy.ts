@@ -0,0 +1,33 @@
+import { CapacityConfig, Reservation } from "./types";
+import { serviceMinutesOf } from "./schedule";
+import { getRestaurantTimeZone, zonedTimeToEpochMs } from "./timezone";
+
+export type CancellationCheck =
+  | { allowed: true; late: boolean }
+  | { allowed: false; reason: "cancel_cutoff" };
+
+// Minutes left until the booking starts (negative once it has started).
+function minutesUntilStart(cfg: CapacityConfig, r: Reservation, now: Date): number {
+  const startMs = zonedTimeToEpochMs(r.date, serviceMinutesOf(cfg, r.date, r.time), getRestaurantTimeZone(r.restaurant_id));
+  return (startMs - now.getTime()) / 60_000;
+}
+
+/**
+ * Whether the guest may still cancel. Inside the cutoff the cancellation is refused,
+ * unless late cancellations are allowed, in which case it goes through flagged as late.
+ */
+export function checkCancellation(cfg: CapacityConfig, r: Reservation, now: Date): CancellationCheck {
+  const cutoffMin = cfg.changePolicy?.cancelCutoffMin ?? 0;
+  const left = minutesUntilStart(cfg, r, now);
+  if (cutoffMin <= 0 || !Number.isFinite(left) || left >= cutoffMin) return { allowed: true, late: false };
+  if (cfg.changePolicy?.allowLateCancel) return { allowed: true, late: true };
+  return { allowed: false, reason: "cancel_cutoff" };
+}
+
+// Refusal reason if the guest can no longer change the booking, or null.
+export function modificationBlockedReason(cfg: CapacityConfig, r: Reservation, now: Date): "modify_cutoff" | null {
+  const cutoffMin = cfg.changePolicy?.modifyCutoffMin ?? 0;
+  const left = minutesUntilStart(cfg, r, now);
+  if (cutoffMin <= 0 || !Number.isFinite(left) || left >= cutoffMin) return null;
+  return "modify_cutoff";
+}
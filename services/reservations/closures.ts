@@ -0,0 +1,153 @@
+import { Closure, Reservation } from "./types";
+import { getReservationSettings, updateReservationSettings } from "./settings";
+import { ReservationRepository } from "./repository";
+import { closureWindow, isWholeDayClosure, serviceMinutesOf } from "./schedule";
+import { reservationDurationMin } from "./duration";
+import { isActiveStatus } from "./lifecycle";
+import { AuditLog, AuditSource } from "./audit";
+import { parseTimeToMinutes } from "./timeSlots";
+import { addDaysISO, getRestaurantTimeZone, isoDateInZone } from "./timezone";
+import { expandEvent, icsCalendarName, parseIcs } from "../calendar/ics";
+
+const generateId = () => Math.random().toString(36).slice(2, 11);
+
+// Owner-entered closure as it comes from the form; throws on anything that can't be saved.
+export function addClosure(restaurantId: string, input: Omit<Closure, "id">): Closure {
+  const from = input.from?.trim();
+  const to = (input.to || input.from)?.trim();
+  if (!from || !addDaysISO(from, 0) || !to || !addDaysISO(to, 0)) throw new Error("Invalid closure dates.");
+  if (to < from) throw new Error("Closure ends before it starts.");
+
+  const start = input.start?.trim() || undefined;
+  const end = input.end?.trim() || undefined;
+  if (Boolean(start) !== Boolean(end)) throw new Error("A partial closure needs both start and end.");
+  if (start && end && (!Number.isFinite(parseTimeToMinutes(start)) || !Number.isFinite(parseTimeToMinutes(end)) || start === end)) {
+    throw new Error("Invalid closure hours.");
+  }
+
+  const closure: Closure = { id: generateId(), from, to, start, end, label: input.label?.trim() || undefined };
+  const cfg = getReservationSettings(restaurantId);
+  updateReservationSettings(restaurantId, { closures: [...(cfg.closures ?? []), closure] });
+  return closure;
+}
+
+export function removeClosure(restaurantId: string, id: string): void {
+  const cfg = getReservationSettings(restaurantId);
+  updateReservationSettings(restaurantId, { closures: (cfg.closures ?? []).filter((c) => c.id !== id) });
+}
+
+// Imported closures are keyed by event and date, so an occurrence imported again is matched up.
+const icsClosureId = (uid: string, date: string): string => `ics:${uid}:${date}`;
+const icsUidPrefix = (uid: string): string => `ics:${uid}:`;
+export const isImportedClosure = (c: Closure): boolean => c.id.startsWith("ics:");
+
+export interface IcsImportResult {
+  added: Closure[];
+  updated: number;
+  removed: number;
+}
+
+/**
+ * Turns a calendar file into closures for the next `horizonDays`: all-day events close
+ * whole days, timed events close those hours. Each import is recorded under its calendar's
+ * name (X-WR-CALNAME), or `fileName` when it has none, and replaces every upcoming closure
+ * imported from that calendar before, so events deleted from it go too.
+ */
+export function importIcsClosures(
+  restaurantId: string,
+  text: string,
+  fileName: string,
+  now: Date = new Date(),
+  horizonDays = 730
+): IcsImportResult {
+  const events = parseIcs(text);
+  if (events.length === 0) throw new Error("No events found in the calendar file.");
+  const source = icsCalendarName(text) ?? (fileName.trim() || "calendar.ics");
+
+  const timeZone = getRestaurantTimeZone(restaurantId);
+  const from = isoDateInZone(now, timeZone);
+  const to = addDaysISO(from, horizonDays) as string;
+
+  const incoming = new Map<string, Closure>();
+  for (const event of events) {
+    for (const o of expandEvent(event, from, to, timeZone)) {
+      const id = icsClosureId(o.uid, o.date);
+      incoming.set(id, { id, from: o.date, to: o.endDate, start: o.start, end: o.end, label: o.summary?.trim() || undefined, source });
+    }
+  }
+
+  // Closures imported before sources were recorded are matched by the events' UIDs.
+  const uids = events.map((e) => icsUidPrefix(e.uid));
+  const fromSource = (c: Closure): boolean =>
+    isImportedClosure(c) && (c.source ? c.source === source : uids.some((p) => c.id.startsWith(p)));
+  const existing = getReservationSettings(restaurantId).closures ?? [];
+  // Past occurrences are history; only upcoming ones are replaced.
+  const replaced = existing.filter((c) => c.to >= from && fromSource(c));
+  const kept = existing.filter((c) => !replaced.includes(c));
+  const previous = new Map(replaced.map((c) => [c.id, c]));
+
+  const added = Array.from(incoming.values()).filter((c) => !previous.has(c.id));
+  const updated = Array.from(incoming.values()).filter((c) => {
+    const old = previous.get(c.id);
+    return old && JSON.stringify({ ...old, id: "" }) !== JSON.stringify({ ...c, id: "" });
+  }).length;
+  const removed = replaced.filter((c) => !incoming.has(c.id)).length;
+
+  updateReservationSettings(restaurantId, { closures: [...kept, ...Array.from(incoming.values())] });
+  return { added, updated, removed };
+}
+
+/**
+ * Active bookings the closure runs into: every one on a closed day, and for a partial
+ * closure those whose seating time overlaps the closed hours. Sorted by date and time.
+ */
+export function findClosureConflicts(restaurantId: string, closure: Closure): Reservation[] {
+  const cfg = getReservationSettings(restaurantId);
+  const { startMin, endMin } = closureWindow(closure);
+  return ReservationRepository.getAll(restaurantId)
+    .filter((r) => isActiveStatus(r.status) && r.date >= closure.from && r.date <= closure.to)
+    .filter((r) => {
+      if (isWholeDayClosure(closure)) return true;
+      const rStart = serviceMinutesOf(cfg, r.date, r.time);
+      if (!Number.isFinite(rStart)) return false;
+      return rStart < endMin && rStart + reservationDurationMin(cfg, r) > startMin;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || serviceMinutesOf(cfg, a.date, a.time) - serviceMinutesOf(cfg, b.date, b.time));
+}
+
+// One-line summary for the owner panel.
+export function describeClosure(c: Closure): string {
+  const days = c.from === c.to ? c.from : `${c.from} → ${c.to}`;
+  const hours = isWholeDayClosure(c) ? "todo el día" : `${c.start}–${c.end}`;
+  return `${c.label ? `${c.label}: ` : ""}${days}, ${hours}`;
+}
+
+// Message for a guest whose booking falls in the closure.
+export function closureNotice(restaurantName: string, r: Reservation, c: Closure): string {
+  return (
+    `Hola ${r.name}, te escribimos de ${restaurantName}. ` +
+    `Tu reserva ${r.code} del ${r.date} a las ${r.time} coincide con un cierre del local${c.label ? ` (${c.label})` : ""}. ` +
+    `Lo sentimos mucho; responde a este mensaje y te buscamos otra fecha.`
+  );
+}
+
+// wa.me link that opens a chat with the guest and the message ready to send.
+export function whatsappLink(phone: string, text: string): string | null {
+  const digits = phone.replace(/\D/g, "");
+  if (!digits) return null;
+  return `https://wa.me/${digits}?text=${encodeURIComponent(text)}`;
+}
+
+/**
+ * Cancels the given bookings on the restaurant's side (logged in each booking's history).
+ * Returns how many were cancelled; ones that can't be (already gone) are skipped.
+ */
+export function cancelForClosure(restaurantId: string, reservations: Reservation[], source: AuditSource, now: Date = new Date()): number {
+  let cancelled = 0;
+  for (const r of reservations) {
+    if (!ReservationRepository.cancel(restaurantId, r.id, "restaurant", { now })) continue;
+    AuditLog.record(source, r, ReservationRepository.getById(restaurantId, r.id), now);
+    cancelled += 1;
+  }
+  return cancelled;
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { findDateExpression, parseDateExpression } from './dateParser';
+
+// Monday 19 October 2026.
+const MONDAY = '2026-10-19';
+const FRIDAY = '2026-10-23';
+
+describe('parseDateExpression', () => {
+  describe('year rollover', () => {
+    it('moves a day and month that already went by to next year', () => {
+      expect(parseDateExpression('el 14 de febrero', MONDAY)).toBe('2027-02-14');
+      expect(parseDateExpression('para el 14/2', MONDAY)).toBe('2027-02-14');
+      expect(parseDateExpression('February 14th', MONDAY)).toBe('2027-02-14');
+      expect(parseDateExpression('el 14 de octubre', MONDAY)).toBe('2027-10-14');
+    });
+
+    it('keeps today and later days of this year', () => {
+      expect(parseDateExpression('el 19 de octubre', MONDAY)).toBe('2026-10-19');
+      expect(parseDateExpression('el 24 de diciembre', MONDAY)).toBe('2026-12-24');
+    });
+
+    it('crosses New Year from the last day of the year', () => {
+      expect(parseDateExpression('mañana', '2026-12-31')).toBe('2027-01-01');
+      expect(parseDateExpression('el 1 de enero', '2026-12-31')).toBe('2027-01-01');
+      expect(parseDateExpression('el 2', '2026-12-31')).toBe('2027-01-02');
+      expect(parseDateExpression('dentro de 3 días', '2026-12-30')).toBe('2027-01-02');
+    });
+  });
+
+  describe('weekdays', () => {
+    it('reads "este viernes" and "el viernes que viene" as the coming Friday', () => {
+      expect(parseDateExpression('este viernes', MONDAY)).toBe(FRIDAY);
+      expect(parseDateExpression('el viernes que viene', MONDAY)).toBe(FRIDAY);
+      expect(parseDateExpression('el viernes', MONDAY)).toBe(FRIDAY);
+    });
+
+    it('tells them apart on the Friday itself', () => {
+      expect(parseDateExpression('este viernes', FRIDAY)).toBe(FRIDAY);
+      expect(parseDateExpression('el viernes que viene', FRIDAY)).toBe('2026-10-30');
+      expect(parseDateExpression('next Friday', FRIDAY)).toBe('2026-10-30');
+    });
+
+    it('takes "de la semana que viene" as next Monday-to-Sunday week', () => {
+      expect(parseDateExpression('el viernes de la semana que viene', MONDAY)).toBe('2026-10-30');
+      expect(parseDateExpression('el lunes de la semana que viene', '2026-10-25')).toBe('2026-10-26');
+    });
+
+    it('goes past the end of the year', () => {
+      expect(parseDateExpression('el sábado', '2026-12-30')).toBe('2027-01-02');
+    });
+  });
+
+  describe('29 February', () => {
+    it('goes to the next leap year when no year is given', () => {
+      expect(parseDateExpression('el 29 de febrero', MONDAY)).toBe('2028-02-29');
+      expect(parseDateExpression('29/2', MONDAY)).toBe('2028-02-29');
+    });
+
+    it('accepts it only in a leap year when the year is written', () => {
+      expect(parseDateExpression('29/02/2028', MONDAY)).toBe('2028-02-29');
+      expect(parseDateExpression('29/02/2027', MONDAY)).toBeNull();
+      expect(parseDateExpression('29 de febrero de 2027', MONDAY)).toBeNull();
+    });
+  });
+
+  describe('"el 31"', () => {
+    it('skips months without a 31st', () => {
+      expect(parseDateExpression('el 31', '2026-11-05')).toBe('2026-12-31');
+      expect(parseDateExpression('el día 31', '2026-09-30')).toBe('2026-10-31');
+      expect(parseDateExpression('el 31', '2027-02-10')).toBe('2027-03-31');
+    });
+
+    it('rejects a 31st the month does not have', () => {
+      expect(parseDateExpression('31 de noviembre', MONDAY)).toBeNull();
+      expect(parseDateExpression('31/11', MONDAY)).toBeNull();
+    });
+  });
+
+  describe('written years', () => {
+    it('rejects d/m/yy dates that already went by instead of booking in the past', () => {
+      expect(parseDateExpression('14/02/26', MONDAY)).toBeNull();
+      expect(parseDateExpression('el 14/02/26', MONDAY)).toBeNull();
+      expect(parseDateExpression('14-02-2026', MONDAY)).toBeNull();
+      expect(parseDateExpression('el 14 de febrero de 2026', MONDAY)).toBeNull();
+    });
+
+    it('reads future and same-day ones as written', () => {
+      expect(parseDateExpression('14/02/27', MONDAY)).toBe('2027-02-14');
+      expect(parseDateExpression('19/10/26', MONDAY)).toBe(MONDAY);
+      expect(parseDateExpression('14 de febrero de 2027', MONDAY)).toBe('2027-02-14');
+    });
+
+    it('passes ISO dates through', () => {
+      expect(parseDateExpression('2027-02-14', MONDAY)).toBe('2027-02-14');
+    });
+  });
+
+  it('does not read English "may" followed by a head count as May', () => {
+    expect(parseDateExpression('may 4 of us come on friday?', MONDAY)).toBe(FRIDAY);
+    expect(parseDateExpression('May 4 people come tomorrow?', MONDAY)).toBe('2026-10-20');
+    expect(parseDateExpression('May 4th', MONDAY)).toBe('2027-05-04');
+    expect(parseDateExpression('may 4, 2027 at 9pm', MONDAY)).toBe('2027-05-04');
+  });
+
+  it('returns null when no date is named', () => {
+    expect(parseDateExpression('somos 4 a las 9', MONDAY)).toBeNull();
+    expect(parseDateExpression('por la mañana', MONDAY)).toBeNull();
+  });
+});
+
+describe('findDateExpression', () => {
+  it('returns the words that named the date', () => {
+    expect(findDateExpression('Hola, mesa para 4 el sábado 7 de noviembre a las 9', MONDAY)).toEqual({
+      text: 'sabado 7 de noviembre',
+      date: '2026-11-07',
+    });
+  });
+
+  it('prefers the longest of overlapping matches', () => {
+    expect(findDateExpression('pasado mañana', MONDAY)?.date).toBe('2026-10-21');
+  });
+});
@@ -0,0 +1,238 @@
+import { addDaysISO } from "./timezone";
+
+// A date found in free text: the words that named it and the calendar day they mean.
+export interface DateMatch {
+  text: string;
+  date: string; // YYYY-MM-DD
+}
+
+const pad2 = (n: number): string => String(n).padStart(2, "0");
+
+const MONTHS: Record<string, number> = {
+  enero: 1, january: 1, jan: 1,
+  febrero: 2, february: 2, feb: 2,
+  marzo: 3, march: 3,
+  abril: 4, april: 4, apr: 4,
+  mayo: 5, may: 5,
+  junio: 6, june: 6, jun: 6,
+  julio: 7, july: 7, jul: 7,
+  agosto: 8, august: 8, aug: 8,
+  septiembre: 9, setiembre: 9, september: 9, sept: 9, sep: 9,
+  octubre: 10, october: 10, oct: 10,
+  noviembre: 11, november: 11, nov: 11,
+  diciembre: 12, december: 12, dec: 12,
+};
+
+// 0 = Sunday, as Date#getUTCDay.
+const WEEKDAYS: Record<string, number> = {
+  domingo: 0, sunday: 0,
+  lunes: 1, monday: 1,
+  martes: 2, tuesday: 2,
+  miercoles: 3, wednesday: 3,
+  jueves: 4, thursday: 4,
+  viernes: 5, friday: 5,
+  sabado: 6, saturday: 6,
+};
+
+// Longest names first so "sept" wins over "sep".
+const alternation = (words: string[]): string => words.sort((a, b) => b.length - a.length).join("|");
+const MONTH_RE = alternation(Object.keys(MONTHS));
+const WEEKDAY_RE = alternation(Object.keys(WEEKDAYS));
+const ORDINAL = "(?:st|nd|rd|th|º|o)?";
+// "sábado 7 de noviembre", "Saturday, November 7": the weekday belongs to the date.
+const WEEKDAY_PREFIX = `(?:(?:${WEEKDAY_RE}),? (?:el |dia )?)?`;
+// A number that counts people, not days: "may 4 of us come", "march 6 people".
+const HEADCOUNT_AHEAD = "(?! (?:of us|of them|people|persons|guests|pax|personas?|comensales)\\b)";
+
+const NUMBER_WORDS: Record<string, number> = {
+  un: 1, uno: 1, una: 1, one: 1, a: 1,
+  dos: 2, two: 2, tres: 3, three: 3, cuatro: 4, four: 4, cinco: 5, five: 5,
+  seis: 6, six: 6, siete: 7, seven: 7, ocho: 8, eight: 8, nueve: 9, nine: 9, diez: 10, ten: 10,
+};
+const COUNT_RE = `(\\d{1,3}|${alternation(Object.keys(NUMBER_WORDS))})`;
+
+const toCount = (word: string): number => (/^\d+$/.test(word) ? Number(word) : NUMBER_WORDS[word]);
+
+// Lowercase, no accents, single spaces.
+const clean = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Real calendar day or null ("2027-02-30" is not).
+const isoFromParts = (year: number, month: number, day: number): string | null => {
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) return null;
+  const iso = `${year}-${pad2(month)}-${pad2(day)}`;
+  return addDaysISO(iso, 0) === iso ? iso : null;
+};
+
+const weekdayOf = (iso: string): number => {
+  const [y, m, d] = iso.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+};
+
+/**
+ * Day and month without a year: this year's, or next year's once it has gone by
+ * ("el 14 de febrero" said in March means next February). Feb 29 skips to the next leap year.
+ */
+const nextDayMonth = (today: string, month: number, day: number): string | null => {
+  const year = Number(today.slice(0, 4));
+  for (let y = year; y <= year + 4; y++) {
+    const candidate = isoFromParts(y, month, day);
+    if (candidate && candidate >= today) return candidate;
+  }
+  return null;
+};
+
+// A date with its year written out, unless it has already gone by: "14/02/26" said in
+// October is a slip, not a booking, and is better asked again than moved to another year.
+const writtenDate = (today: string, year: number, month: number, day: number): string | null => {
+  const iso = isoFromParts(year, month, day);
+  return iso && iso >= today ? iso : null;
+};
+
+// Written year, "27" meaning 2027; null when none was given.
+const fullYear = (raw: string | undefined): number | null => {
+  if (!raw) return null;
+  return raw.length === 2 ? 2000 + Number(raw) : Number(raw);
+};
+
+/**
+ * Weekday from today. `mode`:
+ * - "this": the coming one, today included ("el sábado", "este sábado").
+ * - "next": the coming one, today excluded ("el viernes que viene", "next Friday").
+ * - "next_week": that day in next Monday-to-Sunday week ("el viernes de la semana que viene").
+ */
+const resolveWeekday = (today: string, weekday: number, mode: "this" | "next" | "next_week"): string | null => {
+  const dow = weekdayOf(today);
+  if (mode === "next_week") {
+    const toMonday = (8 - dow) % 7 || 7;
+    return addDaysISO(today, toMonday + ((weekday + 6) % 7));
+  }
+  let delta = (weekday - dow + 7) % 7;
+  if (delta === 0 && mode === "next") delta = 7;
+  return addDaysISO(today, delta);
+};
+
+// Each rule looks for one kind of expression. The earliest match in the text wins; when
+// matches overlap ("el 14 de febrero", "pasado mañana") the longest one does.
+interface DateRule {
+  re: RegExp;
+  resolve: (m: RegExpExecArray, today: string) => string | null;
+}
+
+const RULES: DateRule[] = [
+  {
+    re: /\b(\d{4})-(\d{2})-(\d{2})\b/,
+    resolve: (m) => isoFromParts(Number(m[1]), Number(m[2]), Number(m[3])),
+  },
+  {
+    re: /\b(?:pasado manana|(?:the )?day after tomorrow)\b/,
+    resolve: (_m, today) => addDaysISO(today, 2),
+  },
+  {
+    // "mañana" is also "morning": "esta mañana" is today, "por la mañana" names no day.
+    re: /\b(?:hoy|today|tonight|esta noche|esta tarde|esta manana)\b/,
+    resolve: (_m, today) => today,
+  },
+  {
+    re: /(?<!(?:la|esta) )\b(?:manana|tomorrow)\b/,
+    resolve: (_m, today) => addDaysISO(today, 1),
+  },
+  {
+    re: new RegExp(`\\b(?:dentro de|en|in) ${COUNT_RE} (?:dias?|days?)\\b`),
+    resolve: (m, today) => addDaysISO(today, toCount(m[1])),
+  },
+  {
+    re: new RegExp(`\\b(?:dentro de|en|in) ${COUNT_RE} (?:semanas?|weeks?)\\b`),
+    resolve: (m, today) => addDaysISO(today, toCount(m[1]) * 7),
+  },
+  {
+    // "14 de febrero", "14 febrero 2027", "14th of February", "1º de mayo"
+    re: new RegExp(`\\b${WEEKDAY_PREFIX}(\\d{1,2})${ORDINAL} (?:de |of )?(${MONTH_RE})\\b(?:,? (?:de |del )?(\\d{4})\\b)?`),
+    resolve: (m, today) => {
+      const year = fullYear(m[3]);
+      return year === null ? nextDayMonth(today, MONTHS[m[2]], Number(m[1])) : writtenDate(today, year, MONTHS[m[2]], Number(m[1]));
+    },
+  },
+  {
+    // "February 14", "feb 14th, 2027". English "may" is also a verb: "may 4 of us come?".
+    re: new RegExp(`\\b${WEEKDAY_PREFIX}(${MONTH_RE}) (\\d{1,2})${ORDINAL}\\b${HEADCOUNT_AHEAD}(?:,? (\\d{4})\\b)?`),
+    resolve: (m, today) => {
+      const year = fullYear(m[3]);
+      return year === null ? nextDayMonth(today, MONTHS[m[1]], Number(m[2])) : writtenDate(today, year, MONTHS[m[1]], Number(m[2]));
+    },
+  },
+  {
+    // Day first, as written in Spain: "14/2", "14-02-27", "14/02/2027"
+    re: new RegExp(`\\b${WEEKDAY_PREFIX}(\\d{1,2})[/-](\\d{1,2})(?:[/-](\\d{2}|\\d{4}))?\\b`),
+    resolve: (m, today) => {
+      const year = fullYear(m[3]);
+      return year === null ? nextDayMonth(today, Number(m[2]), Number(m[1])) : writtenDate(today, year, Number(m[2]), Number(m[1]));
+    },
+  },
+  {
+    // "el sábado", "este sábado", "el próximo sábado", "el sábado que viene", "next Saturday",
+    // "el sábado de la semana que viene"
+    re: new RegExp(
+      `\\b(?:(?:este|el|la|this|on) )?(?:(proximo|proxima|next) )?(${WEEKDAY_RE})\\b(?: (que viene|proximo|de la semana que viene|de la proxima semana|next week)\\b)?`
+    ),
+    resolve: (m, today) => {
+      const suffix = m[3] ?? "";
+      const mode = suffix.includes("semana") || suffix === "next week" ? "next_week" : m[1] || suffix ? "next" : "this";
+      return resolveWeekday(today, WEEKDAYS[m[2]], mode);
+    },
+  },
+  {
+    // Bare day of the month: "el 14", "el día 3", "on the 21st". This month, or next once it's past.
+    re: /\b(?:el dia|el|dia|on the) (\d{1,2})(?:st|nd|rd|th|º)?\b(?! ?(?:personas?|people|pax|comensales|h\b|:|[.,/-]\d))/,
+    resolve: (m, today) => {
+      const day = Number(m[1]);
+      const year = Number(today.slice(0, 4));
+      const month = Number(today.slice(5, 7));
+      const thisMonth = isoFromParts(year, month, day);
+      if (thisMonth && thisMonth >= today) return thisMonth;
+      // Months without that day (the 31st) are skipped.
+      for (let i = 1; i <= 12; i++) {
+        const next = isoFromParts(year + Math.floor((month - 1 + i) / 12), ((month - 1 + i) % 12) + 1, day);
+        if (next) return next;
+      }
+      return null;
+    },
+  },
+];
+
+/**
+ * First date named in a message, resolved against `today` (YYYY-MM-DD in the restaurant's zone).
+ * Understands ISO dates, hoy/mañana/pasado mañana, "dentro de N días", "14 de febrero",
+ * "February 14", d/m[/y], weekdays ("este sábado", "el viernes que viene", "next Friday")
+ * and a bare "el 14". Dates without a year never land in the past; past dates with one
+ * ("14/02/26" in October) are not read at all.
+ */
+export function findDateExpression(text: string, today: string): DateMatch | null {
+  const source = clean(text);
+  if (!source || !addDaysISO(today, 0)) return null;
+
+  // Matches that name no valid day are kept too, so a rejected "14 de febrero de 2026"
+  // isn't replaced by the "el 14" inside it.
+  const found: { index: number; end: number; text: string; date: string | null }[] = [];
+  for (const rule of RULES) {
+    const m = rule.re.exec(source);
+    if (m) found.push({ index: m.index, end: m.index + m[0].length, text: m[0], date: rule.resolve(m, today) });
+  }
+  if (found.length === 0) return null;
+
+  const first = found.reduce((a, b) => (b.index < a.index ? b : a));
+  const best = found
+    .filter((f) => f.index < first.end)
+    .reduce((a, b) => (b.end - b.index > a.end - a.index ? b : a));
+  return best.date ? { text: best.text, date: best.date } : null;
+}
+
+// Just the date, for fields that should hold one ("el sábado", "14/02", "2027-02-14").
+export function parseDateExpression(text: string, today: string): string | null {
+  return findDateExpression(text, today)?.date ?? null;
+}
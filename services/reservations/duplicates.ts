@@ -0,0 +1,40 @@
+import { CapacityConfig, Reservation } from "./types";
+import { occupancyWindow } from "./lifecycle";
+
+const samePhone = (a: string, b: string): boolean => a.replace(/[^\d+]/g, "") === b.replace(/[^\d+]/g, "");
+
+/**
+ * An active booking from the same phone on `date` whose time overlaps the window
+ * [startMin, endMin), i.e. what a double-sent message would have created already.
+ */
+export function findOverlappingBooking(
+  cfg: CapacityConfig,
+  reservations: Reservation[],
+  phone: string,
+  date: string,
+  startMin: number,
+  endMin: number,
+  excludeReservationId?: string
+): Reservation | null {
+  for (const r of reservations) {
+    if (r.id === excludeReservationId || r.date !== date || !samePhone(r.phone, phone)) continue;
+    const w = occupancyWindow(cfg, r);
+    if (w && r.status !== "completed" && startMin < w.endMin && w.startMin < endMin) return r;
+  }
+  return null;
+}
+
+// Ids of bookings that overlap another booking from the same phone (for the owner to review).
+export function findSuspectedDuplicates(cfg: CapacityConfig, reservations: Reservation[]): Set<string> {
+  const out = new Set<string>();
+  for (const r of reservations) {
+    const w = occupancyWindow(cfg, r);
+    if (!w || r.status === "completed") continue;
+    const other = findOverlappingBooking(cfg, reservations, r.phone, r.date, w.startMin, w.endMin, r.id);
+    if (other) {
+      out.add(r.id);
+      out.add(other.id);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,27 @@
+import { CapacityConfig, DurationRule, OpeningRange, Reservation } from "./types";
+import { findShift, getOpeningHoursForDate, serviceMinutesOf } from "./schedule";
+
+const isValidRule = (r: DurationRule): boolean =>
+  Number.isFinite(r?.maxPartySize) && r.maxPartySize >= 1 && Number.isFinite(r?.durationMin) && r.durationMin >= 1;
+
+/**
+ * Duration a party holds the room for. Shift rules win over the global rules;
+ * the first rule (by ascending maxPartySize) that fits the party applies.
+ * Falls back to standardDurationMin when nothing matches.
+ */
+export function resolveDurationMin(cfg: CapacityConfig, partySize: number, shift?: OpeningRange): number {
+  const rules = shift?.durationRules?.length ? shift.durationRules : cfg.durationRules;
+  const match = (rules ?? [])
+    .filter(isValidRule)
+    .slice()
+    .sort((a, b) => a.maxPartySize - b.maxPartySize)
+    .find((r) => partySize <= r.maxPartySize);
+  return match?.durationMin ?? cfg.standardDurationMin;
+}
+
+// Stored duration of an existing booking; records created before durations were stored use today's rules.
+export function reservationDurationMin(cfg: CapacityConfig, r: Reservation): number {
+  if (Number.isFinite(r.durationMin) && (r.durationMin as number) > 0) return r.durationMin as number;
+  const shift = findShift(getOpeningHoursForDate(cfg, r.date), serviceMinutesOf(cfg, r.date, r.time));
+  return resolveDurationMin(cfg, r.partySize, shift);
+}
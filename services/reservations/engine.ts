@@ -1,14 +1,35 @@
 import { BackendAction, ReservationData } from '../../types';
 import { AvailabilityService } from './availability';
 import { ReservationRepository } from './repository';
-import { Reservation, AvailabilityReason } from './types';
+import { WaitlistRepository } from './waitlist';
+import { Reservation, AvailabilityReason, AuditActor, AuditChannel, ReservationSource } from './types';
 import { getReservationSettings } from "./settings";
-import { minutesToHHMM, parseTimeToMinutes, roundToSlot } from "./timeSlots";
+import { minutesToHHMM, roundToSlot } from "./timeSlots";
+import { resolveRequestedTime } from "./timeParser";
+import { findShift, getOpeningHoursForDate } from "./schedule";
+import { resolveDurationMin } from "./duration";
+import { isActiveStatus, isCancelledStatus } from "./lifecycle";
+import { CancellationCheck, checkCancellation, modificationBlockedReason } from "./changePolicy";
+import { IdempotencyStore } from "./idempotency";
+import { findOverlappingBooking } from "./duplicates";
+import { AuditLog } from "./audit";
+import { evaluateGuestRestriction, GuestRestrictionOutcome } from "../guests/restrictions";
+import { normalizePhone } from "../guests/repository";
+import { resolveSeating } from "./seating";
+import { findUnsupportedRequest, normalizeSpecialRequests, UnsupportedRequest } from "./specialRequests";
+import { RestaurantConfigRepository } from "../restaurants/configRepository";
+import { getRestaurantTimeZone, isoDateInZone } from "./timezone";
+import { parseDateExpression } from "./dateParser";
 
 export interface ReservationEngineContext {
   restaurant_id: string;
   phone: string;
   now?: Date;
+  // Recorded in the reservation's change log; defaults to the WhatsApp bot.
+  actor?: AuditActor;
+  channel?: AuditChannel;
+  // Host squeezes a booking in: skips the availability check. Only honoured for the owner.
+  override?: boolean;
 }
 
 export interface EngineResponse {
@@ -19,48 +40,86 @@ export interface EngineResponse {
   alternatives?: { date: string; time: string }[];
   normalized_time?: string;
   message?: string;
+  // The request had already been applied; `data` is the existing reservation.
+  duplicate?: boolean;
+  // Set with reason 'guest_restricted', or when a booking was held for manual confirmation.
+  restriction?: { kind: 'require_confirmation' | 'limit_party' | 'block'; max_party_size?: number };
+  // Set with reason 'special_request': what the restaurant can't offer.
+  unsupported_request?: UnsupportedRequest;
 }
 
-const pad2 = (n: number): string => String(n).padStart(2, '0');
+const SOURCES: ReservationSource[] = ['whatsapp', 'phone', 'walk_in', 'web'];
 
-const toLocalISODate = (d: Date): string => {
-  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+// Explicit source from the payload, else whatever the channel implies.
+const resolveSource = (value: unknown, channel: AuditChannel | undefined): ReservationSource => {
+  if (SOURCES.includes(value as ReservationSource)) return value as ReservationSource;
+  if (channel === 'owner_panel') return 'phone';
+  if (channel === 'api') return 'web';
+  return 'whatsapp';
 };
 
-const addDaysLocal = (d: Date, days: number): Date => {
-  const next = new Date(d.getFullYear(), d.getMonth(), d.getDate());
-  next.setDate(next.getDate() + days);
-  return next;
+// Relative dates ("hoy", "el sábado") are resolved in the restaurant's zone, not the host's.
+const normalizeDateInput = (value: string, now: Date, timeZone: string): string | null => {
+  const raw = (value ?? '').trim();
+  if (!raw) return null;
+  return parseDateExpression(raw, isoDateInZone(now, timeZone));
 };
 
-const isValidISODate = (date: string): boolean => {
-  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
-  const [yy, mm, dd] = date.split('-').map(Number);
-  const dt = new Date(yy, mm - 1, dd);
-  return dt.getFullYear() === yy && dt.getMonth() === mm - 1 && dt.getDate() === dd;
+// Bookings can be named by internal id or by the code the guest was given.
+const findByReference = (restaurantId: string, ref: string | undefined): Reservation | undefined => {
+  if (!ref) return undefined;
+  return ReservationRepository.getById(restaurantId, ref) ?? ReservationRepository.getByCode(restaurantId, ref);
 };
 
-const normalizeDateInput = (value: string, now: Date): string | null => {
-  const raw = value.trim();
-  if (!raw) return null;
-
-  if (isValidISODate(raw)) return raw;
+// Guests only reach bookings made with their own phone; someone else's code reads as unknown.
+const findOwnReference = (restaurantId: string, ref: string | undefined, phone: string, isHost: boolean): Reservation | undefined => {
+  const found = findByReference(restaurantId, ref);
+  if (!found || isHost) return found;
+  return normalizePhone(found.phone) === normalizePhone(phone) ? found : undefined;
+};
 
-  const normalized = raw.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+const WRITE_ACTIONS: BackendAction["type"][] = ['create_reservation', 'update_reservation', 'cancel_reservation'];
 
-  if (normalized === "hoy" || normalized === "today") return toLocalISODate(now);
-  if (normalized === "manana" || normalized === "tomorrow") return toLocalISODate(addDaysLocal(now, 1));
-  if (normalized === "pasado manana" || normalized === "day after tomorrow") return toLocalISODate(addDaysLocal(now, 2));
+/**
+ * The reservation an earlier request with this key wrote, unless someone changed it since:
+ * then the same words are a new request ("a las 9" again after it was moved to the 10).
+ */
+const findReplayed = (restaurantId: string, key: string, type: BackendAction["type"], now: Date): Reservation | null => {
+  const hit = IdempotencyStore.find(restaurantId, key, type, now);
+  const prev = hit ? ReservationRepository.getById(restaurantId, hit.reservation_id) : undefined;
+  if (!hit || !prev) return null;
+  const changedAt = Math.max(0, ...AuditLog.listByReservation(restaurantId, prev.id).map((e) => e.at));
+  return changedAt <= hit.at ? prev : null;
+};
 
-  const dmY = raw.match(/^(\d{1,2})[\/\-](\d{1,2})(?:[\/\-](\d{2,4}))?$/);
-  if (!dmY) return null;
+// Reservation an earlier copy of this create request already made: same idempotency key,
+// or the same phone already holding an overlapping booking that day.
+const findExistingForCreate = (action: BackendAction, ctx: ReservationEngineContext): Reservation | null => {
+  const restaurantId = ctx.restaurant_id;
+  const now = ctx.now ?? new Date();
+  if (action.idempotency_key) {
+    const prev = findReplayed(restaurantId, action.idempotency_key, action.type, now);
+    if (prev) return prev;
+  }
 
-  const day = Number(dmY[1]);
-  const month = Number(dmY[2]);
-  let year = dmY[3] ? Number(dmY[3]) : now.getFullYear();
-  if (year < 100) year += 2000;
-  const candidate = `${year}-${pad2(month)}-${pad2(day)}`;
-  return isValidISODate(candidate) ? candidate : null;
+  const { date, time, party_size } = action.payload ?? {};
+  const phone = action.payload?.phone || ctx.phone;
+  // Walk-ins without a phone can't be matched to anything.
+  if (!date || !time || !party_size || !phone) return null;
+  const normalizedDate = normalizeDateInput(date, now, getRestaurantTimeZone(restaurantId));
+  if (!normalizedDate) return null;
+  const cfg = getReservationSettings(restaurantId);
+  const startMin = roundToSlot(resolveRequestedTime(cfg, normalizedDate, time), cfg.slotIntervalMin, cfg.slotRounding);
+  if (!Number.isFinite(startMin)) return null;
+  const durationMin = resolveDurationMin(cfg, party_size, findShift(getOpeningHoursForDate(cfg, normalizedDate), startMin));
+  return findOverlappingBooking(
+    cfg,
+    ReservationRepository.listByDate(restaurantId, normalizedDate),
+    phone,
+    normalizedDate,
+    startMin,
+    startMin + durationMin + cfg.bufferMin
+  );
 };
 
 export const ReservationEngine = {
@@ -68,30 +127,49 @@ export const ReservationEngine = {
     const restaurantId = ctx.restaurant_id;
     const userPhone = ctx.phone;
     const now = ctx.now ?? new Date();
+    const timeZone = getRestaurantTimeZone(restaurantId);
+    const key = action.idempotency_key;
+    const source = { actor: ctx.actor ?? 'bot', channel: ctx.channel ?? 'whatsapp' };
+    // Guest-facing policies (restrictions, change cutoffs) don't apply to the host.
+    const isHost = ctx.actor === 'owner';
+    const squeezeIn = isHost && ctx.override === true;
+
+    // A replayed update/cancel returns what the first one left behind.
+    if (key && WRITE_ACTIONS.includes(action.type) && action.type !== 'create_reservation') {
+      const prev = findReplayed(restaurantId, key, action.type, now);
+      if (prev) return { success: true, data: prev, duplicate: true };
+    }
+
     switch (action.type) {
       case 'check_availability': {
         const { date, time, party_size } = action.payload;
         if (!date || !time || !party_size) return { success: false, availability: 'unknown' };
-        const normalizedDate = normalizeDateInput(date, now);
+        const normalizedDate = normalizeDateInput(date, now, timeZone);
         if (!normalizedDate) return { success: false, availability: 'unknown', message: 'Invalid date format.' };
 
-        const result = AvailabilityService.check(restaurantId, normalizedDate, time, party_size);
+        const cfg = getReservationSettings(restaurantId);
+        const rawMin = resolveRequestedTime(cfg, normalizedDate, time);
+        if (!Number.isFinite(rawMin)) return { success: false, availability: 'unknown', message: 'Invalid time format.' };
+        const requestedTime = minutesToHHMM(rawMin);
+
+        const result = AvailabilityService.check(restaurantId, normalizedDate, requestedTime, party_size, undefined, now);
         
         return {
           success: true,
           availability: result.status === 'available' ? 'available' : 'not_available',
           reason: result.reason ?? null,
           alternatives: result.alternatives,
-          normalized_time: result.normalized_time
+          // "9" read as 21:00 is worth telling the bot even when no rounding happened.
+          normalized_time: result.normalized_time ?? (requestedTime !== time ? requestedTime : undefined)
         };
       }
 
       case 'create_reservation': {
-        const { date, time, party_size, name, notes, phone, table_id } = action.payload;
+        const { date, time, party_size, name, notes, phone, table_ids } = action.payload;
         if (!date || !time || !party_size || !name) {
           return { success: false, availability: "unknown", message: "Missing required reservation fields." };
         }
-        const normalizedDate = normalizeDateInput(date, now);
+        const normalizedDate = normalizeDateInput(date, now, timeZone);
         if (!normalizedDate) {
           return { success: false, availability: "unknown", message: "Invalid date format." };
         }
@@ -99,7 +177,7 @@ export const ReservationEngine = {
         const finalPhone = phone || userPhone;
 
         const cfg = getReservationSettings(restaurantId);
-        const rawMin = parseTimeToMinutes(time);
+        const rawMin = resolveRequestedTime(cfg, normalizedDate, time);
         if (!Number.isFinite(rawMin)) {
           return { success: false, availability: "unknown", message: "Invalid time format." };
         }
@@ -109,9 +187,52 @@ export const ReservationEngine = {
         }
         const normalizedTime = minutesToHHMM(roundedMin);
 
+        const existing = findExistingForCreate(action, ctx);
+        if (existing) {
+          if (key) IdempotencyStore.remember(restaurantId, key, action.type, existing.id, now);
+          return {
+            success: true,
+            data: existing,
+            availability: 'available',
+            normalized_time: existing.time,
+            duplicate: true,
+            message: "Reservation already exists; returning it instead of booking twice."
+          };
+        }
+
+        const requests = normalizeSpecialRequests(action.payload.special_requests);
+        const seating = resolveSeating(action.payload);
+        const unsupported = findUnsupportedRequest(RestaurantConfigRepository.get(restaurantId), requests, seating);
+        if (unsupported) {
+          return {
+            success: false,
+            availability: 'not_available',
+            reason: 'special_request',
+            unsupported_request: unsupported,
+            message: "The restaurant can't offer a requested extra."
+          };
+        }
+
+        // Guests with repeated no-shows may be limited, blocked or held for approval.
+        const restriction: GuestRestrictionOutcome = isHost
+          ? { kind: 'none' }
+          : evaluateGuestRestriction(cfg, restaurantId, finalPhone, party_size, now);
+        if (restriction.kind === 'block' || restriction.kind === 'limit_party') {
+          return {
+            success: false,
+            availability: 'not_available',
+            reason: 'guest_restricted',
+            restriction: {
+              kind: restriction.kind,
+              max_party_size: restriction.kind === 'limit_party' ? restriction.maxPartySize : undefined
+            },
+            message: "Guest is restricted by the no-show policy."
+          };
+        }
+
         // Double check availability before writing
-        const check = AvailabilityService.check(restaurantId, normalizedDate, normalizedTime, party_size);
-        if (check.status !== 'available') {
+        const check = squeezeIn ? null : AvailabilityService.check(restaurantId, normalizedDate, normalizedTime, party_size, undefined, now);
+        if (check && check.status !== 'available') {
            return { 
              success: false, 
              availability: 'not_available',
@@ -122,35 +243,60 @@ export const ReservationEngine = {
            };
         }
 
+        const shift = findShift(getOpeningHoursForDate(cfg, normalizedDate), roundedMin);
         const newRes = ReservationRepository.create(restaurantId, {
           date: normalizedDate,
           time: normalizedTime,
           partySize: party_size,
+          durationMin: resolveDurationMin(cfg, party_size, shift),
           name,
           phone: finalPhone,
-          table_id,
-          notes
-        });
+          table_ids,
+          seating,
+          requests,
+          notes,
+          source: resolveSource(action.payload.source, ctx.channel)
+        }, restriction.kind === 'require_confirmation' ? 'pending' : 'confirmed');
+
+        AuditLog.record(source, null, newRes, now);
+        if (key) IdempotencyStore.remember(restaurantId, key, action.type, newRes.id, now);
 
-        return { success: true, data: newRes, availability: 'available', normalized_time: check.normalized_time };
+        // A guest booking through a waitlist offer (or on their own) leaves the waitlist.
+        WaitlistRepository.markAccepted(restaurantId, finalPhone, normalizedDate);
+
+        return {
+          success: true,
+          data: newRes,
+          availability: 'available',
+          normalized_time: check?.normalized_time,
+          restriction: restriction.kind === 'require_confirmation' ? { kind: restriction.kind } : undefined
+        };
       }
 
       case 'update_reservation': {
-        const { reservation_id, changes } = action.payload;
-        if (!reservation_id) return { success: false, message: "Reservation id missing" };
+        const { changes } = action.payload;
+        const ref = action.payload.reservation_id || action.payload.reservation_code;
+        if (!ref) return { success: false, message: "Reservation id missing" };
         
         // If we are changing time/date/size, we must check availability first
-        const currentRes = ReservationRepository.getById(restaurantId, reservation_id);
+        const currentRes = findOwnReference(restaurantId, ref, userPhone, isHost);
         if (!currentRes) return { success: false, message: "Reservation not found" };
+        const reservation_id = currentRes.id;
+        if (!isActiveStatus(currentRes.status)) return { success: false, message: "Reservation is no longer active" };
 
-        const normalizedChangeDate = changes.date ? normalizeDateInput(changes.date, now) : currentRes.date;
+        const cfg = getReservationSettings(restaurantId);
+        const blocked = isHost ? null : modificationBlockedReason(cfg, currentRes, now);
+        if (blocked) {
+          return { success: false, reason: blocked, message: "Too close to the reservation time to change it" };
+        }
+
+        const normalizedChangeDate = changes.date ? normalizeDateInput(changes.date, now, timeZone) : currentRes.date;
         if (!normalizedChangeDate) return { success: false, message: "Invalid date format" };
         const newDate = normalizedChangeDate;
         const newTime = changes.time || currentRes.time;
         const newSize = changes.party_size || currentRes.partySize;
 
-        const cfg = getReservationSettings(restaurantId);
-        const rawMin = parseTimeToMinutes(newTime);
+        const rawMin = resolveRequestedTime(cfg, newDate, newTime);
         if (!Number.isFinite(rawMin)) {
           return { success: false, message: "Invalid time format" };
         }
@@ -160,11 +306,52 @@ export const ReservationEngine = {
         }
         const normalizedTime = minutesToHHMM(roundedMin);
 
-        const needsCheck = (newDate !== currentRes.date) || (newTime !== currentRes.time) || (newSize !== currentRes.partySize);
+        const nextRequests = changes.special_requests !== undefined ? normalizeSpecialRequests(changes.special_requests) : currentRes.requests;
+        const nextSeating = resolveSeating(changes) ?? currentRes.seating;
+        const unsupported = findUnsupportedRequest(RestaurantConfigRepository.get(restaurantId), nextRequests, nextSeating);
+        if (unsupported) {
+          return { success: false, reason: 'special_request', unsupported_request: unsupported, message: "The restaurant can't offer a requested extra." };
+        }
+
+        const needsCheck = (newDate !== currentRes.date) || (normalizedTime !== currentRes.time) || (newSize !== currentRes.partySize);
+
+        // Nothing left to change: a repeat of an update that already went through.
+        const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+        const unchanged =
+          !needsCheck &&
+          (changes.table_ids === undefined || same(changes.table_ids, currentRes.table_ids)) &&
+          same(nextSeating, currentRes.seating) &&
+          same(nextRequests, currentRes.requests) &&
+          (!changes.notes || changes.notes === currentRes.notes) &&
+          (!changes.name || changes.name === currentRes.name) &&
+          (!changes.phone || changes.phone === currentRes.phone) &&
+          (!changes.source || resolveSource(changes.source, ctx.channel) === currentRes.source);
+        if (unchanged) {
+          if (key) IdempotencyStore.remember(restaurantId, key, action.type, reservation_id, now);
+          return { success: true, data: currentRes, duplicate: true, message: "Reservation already has these details." };
+        }
 
-        if (needsCheck) {
+        // Restricted guests can't get round the no-show policy by growing or moving a booking.
+        // Holding for confirmation only applies to new bookings: a pending one stays pending.
+        if (needsCheck && !isHost) {
+          const restriction = evaluateGuestRestriction(cfg, restaurantId, currentRes.phone, newSize, now);
+          if (restriction.kind === 'block' || restriction.kind === 'limit_party') {
+            return {
+              success: false,
+              availability: 'not_available',
+              reason: 'guest_restricted',
+              restriction: {
+                kind: restriction.kind,
+                max_party_size: restriction.kind === 'limit_party' ? restriction.maxPartySize : undefined
+              },
+              message: "Guest is restricted by the no-show policy."
+            };
+          }
+        }
+
+        if (needsCheck && !squeezeIn) {
            // Exclude the current reservation to avoid double counting on tight capacity.
-           const check = AvailabilityService.check(restaurantId, newDate, normalizedTime, newSize, reservation_id);
+           const check = AvailabilityService.check(restaurantId, newDate, normalizedTime, newSize, reservation_id, now);
            
            if (check.status !== 'available') {
               return {
@@ -177,21 +364,88 @@ export const ReservationEngine = {
            }
         }
 
+        // Only re-derive the stored duration when the booking itself changes.
+        const durationMin = needsCheck
+          ? resolveDurationMin(cfg, newSize, findShift(getOpeningHoursForDate(cfg, newDate), roundedMin))
+          : currentRes.durationMin;
+
         const updated = ReservationRepository.update(restaurantId, reservation_id, {
           date: newDate,
           time: normalizedTime,
           partySize: newSize,
-          table_id: changes.table_id,
-          notes: changes.notes
+          durationMin,
+          table_ids: changes.table_ids ?? currentRes.table_ids,
+          seating: nextSeating,
+          requests: nextRequests,
+          notes: changes.notes ?? currentRes.notes,
+          name: changes.name || currentRes.name,
+          phone: changes.phone || currentRes.phone,
+          source: changes.source ? resolveSource(changes.source, ctx.channel) : currentRes.source
         });
+        AuditLog.record(source, currentRes, updated, now);
+        if (updated && key) IdempotencyStore.remember(restaurantId, key, action.type, updated.id, now);
 
         return { success: true, data: updated };
       }
 
       case 'cancel_reservation': {
-        const { reservation_id } = action.payload;
-        const result = ReservationRepository.cancel(restaurantId, reservation_id);
-        return { success: result };
+        const current = findOwnReference(restaurantId, action.payload.reservation_id || action.payload.reservation_code, userPhone, isHost);
+        if (!current) return { success: false, message: "Reservation not found" };
+        const reservation_id = current.id;
+        // Cancelling twice (a re-sent "cancela") isn't an error.
+        if (isCancelledStatus(current.status)) return { success: true, data: current, duplicate: true };
+
+        const policy: CancellationCheck = isHost
+          ? { allowed: true, late: false }
+          : checkCancellation(getReservationSettings(restaurantId), current, now);
+        if (policy.allowed === false) {
+          return { success: false, reason: policy.reason, message: "Too close to the reservation time to cancel it" };
+        }
+        const result = ReservationRepository.cancel(restaurantId, reservation_id, isHost ? 'restaurant' : 'guest', { late: policy.late, now });
+        if (result) AuditLog.record(source, current, ReservationRepository.getById(restaurantId, reservation_id), now);
+        if (result && key) IdempotencyStore.remember(restaurantId, key, action.type, reservation_id, now);
+        return { success: result, data: result && policy.late ? { late_cancel: true } : undefined };
+      }
+
+      case 'confirm_reservation': {
+        // The guest saying they'll come (e.g. answering a reminder). Pending bookings still
+        // wait for the restaurant; this only records the guest's answer.
+        const current = findOwnReference(restaurantId, action.payload.reservation_id || action.payload.reservation_code, userPhone, isHost);
+        if (!current) return { success: false, message: "Reservation not found" };
+        if (!isActiveStatus(current.status)) return { success: false, message: "Reservation is no longer active" };
+        if (current.guestConfirmedAt) return { success: true, data: current, duplicate: true };
+        const updated = ReservationRepository.update(restaurantId, current.id, { guestConfirmedAt: now.getTime() });
+        AuditLog.record(source, current, updated, now);
+        return { success: true, data: updated };
+      }
+
+      case 'join_waitlist': {
+        const { date, time, time_from, time_to, party_size, name, notes, phone } = action.payload;
+        const from = time_from || time;
+        const to = time_to || time_from || time;
+        if (!date || !from || !party_size || !name) {
+          return { success: false, message: "Missing required waitlist fields." };
+        }
+        const normalizedDate = normalizeDateInput(date, now, timeZone);
+        if (!normalizedDate) return { success: false, message: "Invalid date format." };
+
+        const cfg = getReservationSettings(restaurantId);
+        const fromMin = resolveRequestedTime(cfg, normalizedDate, from);
+        const toMin = resolveRequestedTime(cfg, normalizedDate, to);
+        if (!Number.isFinite(fromMin) || !Number.isFinite(toMin)) {
+          return { success: false, message: "Invalid time format." };
+        }
+
+        const entry = WaitlistRepository.join(restaurantId, {
+          date: normalizedDate,
+          timeFrom: minutesToHHMM(fromMin),
+          timeTo: minutesToHHMM(toMin),
+          partySize: party_size,
+          name,
+          phone: phone || userPhone,
+          notes
+        });
+        return { success: true, data: entry };
       }
 
       case 'none':
@@ -200,6 +454,46 @@ export const ReservationEngine = {
     }
   },
 
+  findByReference,
+
+  /**
+   * Copy of the action with its date and time expressions resolved ("el viernes que viene",
+   * "a las 9" -> "2026-10-23", "21:00"), so work done before the engine (table assignment)
+   * looks at the slot the engine will book. Values that can't be read are left for the
+   * engine to reject.
+   */
+  normalizeAction: (action: BackendAction, ctx: ReservationEngineContext): BackendAction => {
+    const now = ctx.now ?? new Date();
+    const timeZone = getRestaurantTimeZone(ctx.restaurant_id);
+    const cfg = getReservationSettings(ctx.restaurant_id);
+    const resolve = (fields: any, baseDate: string | undefined): any => {
+      const out = { ...fields };
+      const date = out.date ? normalizeDateInput(String(out.date), now, timeZone) : null;
+      if (date) out.date = date;
+      const onDate = date ?? baseDate;
+      if (out.time && onDate) {
+        const min = resolveRequestedTime(cfg, onDate, String(out.time));
+        if (Number.isFinite(min)) out.time = minutesToHHMM(min);
+      }
+      return out;
+    };
+
+    const payload = action.payload ?? {};
+    if (action.type === 'create_reservation' || action.type === 'check_availability') {
+      return { ...action, payload: resolve(payload, undefined) };
+    }
+    if (action.type === 'update_reservation' && payload.changes) {
+      const current = findByReference(ctx.restaurant_id, payload.reservation_id || payload.reservation_code);
+      return { ...action, payload: { ...payload, changes: resolve(payload.changes, current?.date) } };
+    }
+    return action;
+  },
+
+  // Lets callers skip side work (e.g. table assignment) for a create that would be a duplicate.
+  findExistingReservation: (action: BackendAction, ctx: ReservationEngineContext): Reservation | null => {
+    return action.type === 'create_reservation' ? findExistingForCreate(action, ctx) : null;
+  },
+
   // Helper for Context
   getStats: (restaurantId: string, phone: string, now: Date = new Date()) => {
     const active = ReservationRepository.getByPhone(restaurantId, phone, now);
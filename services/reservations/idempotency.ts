@@ -0,0 +1,90 @@
+import { BackendAction } from "../../types";
+import { storage } from "../store/storage";
+
+const STORAGE_KEY = "resto_bot_idempotency_v1";
+
+// Long enough to cover retries and re-sent messages; older keys are dropped.
+const KEY_TTL_MS = 24 * 60 * 60_000;
+
+export interface IdempotencyRecord {
+  restaurant_id: string;
+  key: string;
+  type: BackendAction["type"];
+  reservation_id: string;
+  at: number; // epoch ms
+}
+
+const loadDB = (): IdempotencyRecord[] => {
+  const raw = storage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as IdempotencyRecord[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveDB = (data: IdempotencyRecord[]) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(data));
+};
+
+export const IdempotencyStore = {
+  // What an earlier action with the same key and type already wrote, if anything.
+  find: (restaurantId: string, key: string, type: BackendAction["type"], now: Date = new Date()): IdempotencyRecord | null => {
+    const minAt = now.getTime() - KEY_TTL_MS;
+    return loadDB().find((r) => r.restaurant_id === restaurantId && r.key === key && r.type === type && r.at >= minAt) ?? null;
+  },
+
+  remember: (
+    restaurantId: string,
+    key: string,
+    type: BackendAction["type"],
+    reservationId: string,
+    now: Date = new Date()
+  ): void => {
+    const minAt = now.getTime() - KEY_TTL_MS;
+    const db = loadDB().filter((r) => r.at >= minAt && !(r.restaurant_id === restaurantId && r.key === key && r.type === type));
+    db.push({ restaurant_id: restaurantId, key, type, reservation_id: reservationId, at: now.getTime() });
+    saveDB(db);
+  },
+};
+
+// Payload with strings trimmed and lower-cased, empty values dropped and keys sorted,
+// so "Ana " and "ana" or a reordered object serialize the same.
+const canonical = (value: unknown): unknown => {
+  if (typeof value === "string") return value.trim().toLowerCase() || undefined;
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const k of Object.keys(value).sort()) {
+      const v = canonical((value as Record<string, unknown>)[k]);
+      if (v !== undefined && v !== null) out[k] = v;
+    }
+    return out;
+  }
+  return value ?? undefined;
+};
+
+// 53-bit string hash (cyrb53); plenty to tell payloads of one guest apart.
+const hash53 = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * Key for a request whose channel gives no message id of its own: the same guest asking
+ * for the same thing gets the same key, however the message was re-sent.
+ */
+export function deriveIdempotencyKey(phone: string, action: BackendAction): string {
+  const digits = (phone || "").replace(/[^\d+]/g, "");
+  return `${digits}:${action.type}:${hash53(JSON.stringify(canonical(action.payload ?? {})))}`;
+}
@@ -0,0 +1,72 @@
+import { CapacityConfig, Reservation, ReservationStatus } from "./types";
+import { serviceMinutesOf } from "./schedule";
+import { reservationDurationMin } from "./duration";
+import { getRestaurantTimeZone, zonedTimeToEpochMs } from "./timezone";
+
+// Bookings that are still going to happen (or happening) and hold seats.
+export const ACTIVE_STATUSES: ReservationStatus[] = ["pending", "confirmed", "arrived", "seated"];
+
+export const CANCELLED_STATUSES: ReservationStatus[] = ["cancelled_by_guest", "cancelled_by_restaurant"];
+
+/**
+ * Allowed status changes. Terminal states have no outgoing edges, except a
+ * no-show that turns up late and can still be marked as arrived.
+ */
+const TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+  pending: ["confirmed", "cancelled_by_guest", "cancelled_by_restaurant"],
+  confirmed: ["arrived", "seated", "no_show", "cancelled_by_guest", "cancelled_by_restaurant"],
+  arrived: ["seated", "cancelled_by_guest", "cancelled_by_restaurant"],
+  seated: ["completed"],
+  completed: [],
+  no_show: ["arrived"],
+  cancelled_by_guest: [],
+  cancelled_by_restaurant: [],
+};
+
+export const STATUS_LABELS: Record<ReservationStatus, string> = {
+  pending: "Pendiente",
+  confirmed: "Confirmada",
+  arrived: "Ha llegado",
+  seated: "Sentada",
+  completed: "Finalizada",
+  no_show: "No presentada",
+  cancelled_by_guest: "Cancelada (cliente)",
+  cancelled_by_restaurant: "Cancelada (restaurante)",
+};
+
+export const isActiveStatus = (s: ReservationStatus): boolean => ACTIVE_STATUSES.includes(s);
+
+export const isCancelledStatus = (s: ReservationStatus): boolean => CANCELLED_STATUSES.includes(s);
+
+export const nextStatuses = (s: ReservationStatus): ReservationStatus[] => TRANSITIONS[s] ?? [];
+
+export const canTransition = (from: ReservationStatus, to: ReservationStatus): boolean => nextStatuses(from).includes(to);
+
+// Last time the reservation entered `status` (epoch ms), if it ever did.
+export function statusChangedAt(r: Reservation, status: ReservationStatus): number | undefined {
+  const history = r.statusHistory ?? [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].status === status) return history[i].at;
+  }
+  return undefined;
+}
+
+/**
+ * Service-day window during which a booking holds seats, or null if it holds none.
+ * A completed table stops counting when it was closed, so the room frees up early.
+ */
+export function occupancyWindow(cfg: CapacityConfig, r: Reservation): { startMin: number; endMin: number } | null {
+  if (!isActiveStatus(r.status) && r.status !== "completed") return null;
+  const startMin = serviceMinutesOf(cfg, r.date, r.time);
+  if (!Number.isFinite(startMin)) return null;
+  let endMin = startMin + reservationDurationMin(cfg, r) + cfg.bufferMin;
+
+  if (r.status === "completed") {
+    const at = statusChangedAt(r, "completed");
+    const base = zonedTimeToEpochMs(r.date, 0, getRestaurantTimeZone(r.restaurant_id));
+    if (at !== undefined && Number.isFinite(base)) {
+      endMin = Math.min(endMin, Math.max(startMin, Math.floor((at - base) / 60_000)));
+    }
+  }
+  return { startMin, endMin };
+}
@@ -0,0 +1,35 @@
+// Guest-facing booking codes. No 0/O, 1/I/L so they survive being read out or retyped.
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+export const CODE_LENGTH = 6;
+
+const randomCode = (): string => {
+  let out = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    out += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  }
+  return out;
+};
+
+/**
+ * A code not in `taken`. With 31^6 combinations a clash is rare, so a
+ * handful of retries is plenty; the last resort is simply a longer code.
+ */
+export function generateReferenceCode(taken: Set<string>): string {
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const code = randomCode();
+    if (!taken.has(code)) return code;
+  }
+  let code = randomCode();
+  while (taken.has(code)) code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  return code;
+}
+
+// Uppercases and drops separators ("ab3-k9p" -> "AB3K9P"); null if it can't be a code.
+export function normalizeReferenceCode(input: string): string | null {
+  const code = String(input ?? "").toUpperCase().replace(/[\s\-_.#]/g, "");
+  if (code.length < CODE_LENGTH) return null;
+  for (const ch of code) {
+    if (!CODE_ALPHABET.includes(ch)) return null;
+  }
+  return code;
+}
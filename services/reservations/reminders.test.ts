@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStore, setStorageBackend } from '../store/storage';
+import { createInMemoryOutbox, InMemoryOutbox } from '../messaging/outbox';
+import { RestaurantConfigRepository } from '../restaurants/configRepository';
+import { ReservationRepository } from './repository';
+import { updateReservationSettings } from './settings';
+import { Clock, createReminderScheduler, ReminderScheduler } from './reminders';
+import { Reservation } from './types';
+
+const RID = 'resto-test';
+const PHONE = '+34600111222';
+
+// Dinner on Wednesday 10 March 2027 at 21:00 Madrid time (CET, UTC+1) = 20:00Z.
+const DATE = '2027-03-10';
+const TIME = '21:00';
+const REMIND_AT = '2027-03-09T20:00:00Z'; // 24h before
+const RELEASE_AT = '2027-03-10T16:00:00Z'; // 4h before
+
+const fakeClock = (iso: string) => {
+  let current = new Date(iso);
+  const clock: Clock = { now: () => new Date(current) };
+  return { clock, set: (next: string) => (current = new Date(next)) };
+};
+
+const book = (overrides: Partial<Reservation> = {}): Reservation =>
+  ReservationRepository.create(RID, { name: 'Lucía', phone: PHONE, date: DATE, time: TIME, partySize: 2, ...overrides });
+
+describe('reminder scheduler', () => {
+  let outbox: InMemoryOutbox;
+  let time: ReturnType<typeof fakeClock>;
+  let scheduler: ReminderScheduler;
+
+  beforeEach(() => {
+    setStorageBackend(createMemoryStore());
+    RestaurantConfigRepository.patch(RID, { timezone: 'Europe/Madrid' });
+    updateReservationSettings(RID, { reminders: { enabled: true, hoursBefore: 24, releaseHoursBefore: 4 } });
+    outbox = createInMemoryOutbox();
+    time = fakeClock('2027-03-01T12:00:00Z');
+    scheduler = createReminderScheduler({ outbox, clock: time.clock, restaurantIds: () => [RID] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('reminders', () => {
+    it('sends nothing before the reminder time', async () => {
+      book();
+      time.set('2027-03-09T19:59:00Z');
+      expect((await scheduler.runDue()).reminded).toEqual([]);
+      expect(outbox.messages).toHaveLength(0);
+    });
+
+    it('sends the reminder once it is hoursBefore the start', async () => {
+      const r = book();
+      time.set(REMIND_AT);
+      expect((await scheduler.runDue()).reminded).toEqual([r.id]);
+      expect(outbox.messages).toEqual([
+        expect.objectContaining({ restaurant_id: RID, reservation_id: r.id, phone: PHONE, kind: 'reminder' }),
+      ]);
+      expect(outbox.messages[0].text).toContain(r.code);
+      expect(ReservationRepository.getById(RID, r.id)?.reminderSentAt).toBe(new Date(REMIND_AT).getTime());
+    });
+
+    it('does not send a second reminder on later runs', async () => {
+      book();
+      time.set(REMIND_AT);
+      await scheduler.runDue();
+      await scheduler.runDue();
+      time.set('2027-03-10T09:00:00Z');
+      expect((await scheduler.runDue()).reminded).toEqual([]);
+      expect(outbox.messages).toHaveLength(1);
+    });
+
+    it('does not remind again after a restart', async () => {
+      book();
+      time.set(REMIND_AT);
+      await scheduler.runDue();
+      const restarted = createReminderScheduler({ outbox, clock: time.clock, restaurantIds: () => [RID] });
+      expect((await restarted.runDue()).reminded).toEqual([]);
+      expect(outbox.messages).toHaveLength(1);
+    });
+
+    it('retries a send the outbox rejected', async () => {
+      const r = book();
+      time.set(REMIND_AT);
+      const failing = createReminderScheduler({
+        outbox: { send: () => Promise.reject(new Error('offline')) },
+        clock: time.clock,
+        restaurantIds: () => [RID],
+      });
+      expect((await failing.runDue()).failed).toEqual([r.id]);
+      expect(ReservationRepository.getById(RID, r.id)?.reminderSentAt).toBeUndefined();
+      expect((await scheduler.runDue()).reminded).toEqual([r.id]);
+    });
+
+    it('leaves alone bookings made after their reminder time', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2027-03-10T08:00:00Z'));
+      book();
+      vi.useRealTimers();
+      time.set('2027-03-10T09:00:00Z');
+      expect((await scheduler.runDue()).reminded).toEqual([]);
+    });
+
+    it('does nothing when reminders are off', async () => {
+      updateReservationSettings(RID, { reminders: { enabled: false, hoursBefore: 24, releaseHoursBefore: 4 } });
+      book();
+      time.set(REMIND_AT);
+      expect((await scheduler.runDue()).reminded).toEqual([]);
+    });
+  });
+
+  describe('releasing unconfirmed bookings', () => {
+    it('cancels a reminded booking nobody confirmed at releaseHoursBefore', async () => {
+      const r = book();
+      time.set(REMIND_AT);
+      await scheduler.runDue();
+
+      time.set('2027-03-10T15:59:00Z');
+      expect((await scheduler.runDue()).released).toEqual([]);
+
+      time.set(RELEASE_AT);
+      expect((await scheduler.runDue()).released).toEqual([r.id]);
+      expect(ReservationRepository.getById(RID, r.id)?.status).toBe('cancelled_by_restaurant');
+      expect(outbox.messages.map((m) => m.kind)).toEqual(['reminder', 'released']);
+
+      expect((await scheduler.runDue()).released).toEqual([]);
+      expect(outbox.messages).toHaveLength(2);
+    });
+
+    it('keeps bookings the guest confirmed', async () => {
+      const r = book();
+      time.set(REMIND_AT);
+      await scheduler.runDue();
+      time.set('2027-03-09T21:00:00Z');
+      expect(scheduler.handleReply(RID, PHONE, 'Sí, gracias')?.response.success).toBe(true);
+
+      time.set(RELEASE_AT);
+      expect((await scheduler.runDue()).released).toEqual([]);
+      expect(ReservationRepository.getById(RID, r.id)?.status).toBe('confirmed');
+    });
+
+    it('never releases a booking that was not reminded', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2027-03-10T08:00:00Z'));
+      const r = book();
+      vi.useRealTimers();
+      time.set(RELEASE_AT);
+      expect((await scheduler.runDue()).released).toEqual([]);
+      expect(ReservationRepository.getById(RID, r.id)?.status).toBe('confirmed');
+    });
+  });
+
+  describe('handleReply', () => {
+    beforeEach(async () => {
+      book();
+      time.set(REMIND_AT);
+      await scheduler.runDue();
+      time.set('2027-03-09T21:00:00Z');
+    });
+
+    it('confirms on "sí"', () => {
+      const outcome = scheduler.handleReply(RID, PHONE, 'Sí');
+      expect(outcome?.intent).toBe('confirm');
+      expect(outcome?.reservation.phone).toBe(PHONE);
+      expect(ReservationRepository.getById(RID, outcome!.reservation.id)?.guestConfirmedAt).toBe(
+        new Date('2027-03-09T21:00:00Z').getTime()
+      );
+      expect(outcome?.text).toContain('confirmada');
+    });
+
+    it('cancels on "CANCELAR"', () => {
+      const outcome = scheduler.handleReply(RID, PHONE, 'CANCELAR por favor');
+      expect(outcome?.intent).toBe('cancel');
+      expect(outcome?.response.success).toBe(true);
+      expect(ReservationRepository.getById(RID, outcome!.reservation.id)?.status).toBe('cancelled_by_guest');
+    });
+
+    it('answers the latest reminder still waiting for an answer', async () => {
+      const [first] = ReservationRepository.getByPhone(RID, PHONE, time.clock.now());
+      const second = book({ time: '22:30' });
+      time.set('2027-03-09T21:30:00Z');
+      expect((await scheduler.runDue()).reminded).toEqual([second.id]);
+
+      time.set('2027-03-09T21:45:00Z');
+      expect(scheduler.handleReply(RID, PHONE, 'Sí')?.reservation.id).toBe(second.id);
+      expect(scheduler.handleReply(RID, PHONE, 'CANCELAR')?.reservation.id).toBe(first.id);
+      expect(ReservationRepository.getById(RID, first.id)?.status).toBe('cancelled_by_guest');
+      expect(ReservationRepository.getById(RID, second.id)?.status).toBe('confirmed');
+    });
+
+    it('leaves anything else to the bot', () => {
+      expect(scheduler.handleReply(RID, PHONE, 'no puedo a las 9, ¿a las 10?')).toBeNull();
+      expect(scheduler.handleReply(RID, '+34699999999', 'Sí')).toBeNull();
+    });
+  });
+});
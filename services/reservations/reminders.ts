@@ -0,0 +1,233 @@
+import { Reservation } from "./types";
+import { getReservationSettings } from "./settings";
+import { ReservationRepository } from "./repository";
+import { serviceMinutesOf } from "./schedule";
+import { AuditLog, AuditSource } from "./audit";
+import { getRestaurantTimeZone, zonedTimeToEpochMs } from "./timezone";
+import { EngineResponse, ReservationEngine } from "./engine";
+import { RestaurantRepository } from "../restaurants/repository";
+import { OutboundMessage, OutboundMessagePort } from "../messaging/outbox";
+
+const HOUR_MS = 60 * 60_000;
+
+// Releases happen on the bot's side of the conversation.
+const SCHEDULER_SOURCE: AuditSource = { actor: "bot", channel: "whatsapp" };
+
+// Where "now" comes from; tests pass a fake one.
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+const startMsOf = (r: Reservation): number =>
+  zonedTimeToEpochMs(r.date, serviceMinutesOf(getReservationSettings(r.restaurant_id), r.date, r.time), getRestaurantTimeZone(r.restaurant_id));
+
+const restaurantNameOf = (restaurantId: string): string => RestaurantRepository.getById(restaurantId)?.name ?? "el restaurante";
+
+export function reminderText(restaurantName: string, r: Reservation): string {
+  return (
+    `Hola ${r.name}, te recordamos tu reserva ${r.code} en ${restaurantName} el ${r.date} a las ${r.time} ` +
+    `para ${r.partySize} ${r.partySize === 1 ? "persona" : "personas"}. ` +
+    `Responde SÍ para confirmarla o CANCELAR si no puedes venir.`
+  );
+}
+
+export function releaseText(restaurantName: string, r: Reservation): string {
+  return (
+    `Hola ${r.name}, como no hemos recibido confirmación hemos liberado tu reserva ${r.code} ` +
+    `del ${r.date} a las ${r.time} en ${restaurantName}. Si aún quieres venir, escríbenos y te buscamos mesa.`
+  );
+}
+
+export type ReminderReply = "confirm" | "cancel";
+
+const CONFIRM_WORDS = new Set(["si", "confirmo", "confirmar", "confirmada", "confirmado", "ok", "vale", "yes", "confirm", "confirmed"]);
+// A bare "no" is left to the bot: it may be answering something else ("¿algo más?").
+const CANCEL_WORDS = new Set(["cancelar", "cancelo", "cancela", "cancelala", "anular", "anulo", "cancel"]);
+// Allowed around the answer without changing it ("sí, gracias", "cancelar por favor").
+const FILLER_WORDS = new Set(["gracias", "por", "favor", "perfecto", "la", "reserva", "thanks", "please", "thank", "you"]);
+
+/**
+ * Reads a short answer to a reminder: "Sí", "confirmo", "CANCELAR", "cancelar, gracias".
+ * Anything longer or mixed ("no puedo a las 9, ¿a las 10?") returns null and is left to the bot.
+ */
+export function parseReminderReply(text: string): ReminderReply | null {
+  const words = text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+  if (words.length === 0 || words.some((w) => !CONFIRM_WORDS.has(w) && !CANCEL_WORDS.has(w) && !FILLER_WORDS.has(w))) return null;
+  const confirms = words.some((w) => CONFIRM_WORDS.has(w));
+  const cancels = words.some((w) => CANCEL_WORDS.has(w));
+  if (confirms === cancels) return null;
+  return confirms ? "confirm" : "cancel";
+}
+
+export interface ReminderRunResult {
+  reminded: string[]; // reservation ids
+  released: string[];
+  failed: string[]; // sends the port rejected
+}
+
+export interface ReminderReplyOutcome {
+  intent: ReminderReply;
+  reservation: Reservation;
+  response: EngineResponse;
+  // Answer for the guest.
+  text: string;
+}
+
+/**
+ * Applies a guest's answer to their most recent unanswered reminder through the engine, like
+ * any other guest request. Returns null when the text isn't a plain yes/cancel or no reminder
+ * is waiting for an answer.
+ */
+export function handleReminderReply(
+  restaurantId: string,
+  phone: string,
+  text: string,
+  now: Date = new Date()
+): ReminderReplyOutcome | null {
+  const intent = parseReminderReply(text);
+  if (!intent) return null;
+  // The newest reminder still waiting for an answer; one already confirmed isn't asking anything.
+  const [reservation] = ReservationRepository.getByPhone(restaurantId, phone, now)
+    .filter((r) => r.reminderSentAt && !r.guestConfirmedAt)
+    .sort((a, b) => (b.reminderSentAt ?? 0) - (a.reminderSentAt ?? 0));
+  if (!reservation) return null;
+
+  const ctx = { restaurant_id: restaurantId, phone, now, actor: "guest" as const, channel: "whatsapp" as const };
+  const response = ReservationEngine.execute(
+    { type: intent === "confirm" ? "confirm_reservation" : "cancel_reservation", payload: { reservation_id: reservation.id } },
+    ctx
+  );
+
+  let answer: string;
+  if (intent === "confirm") {
+    answer = response.success
+      ? `¡Gracias! Tu reserva ${reservation.code} del ${reservation.date} a las ${reservation.time} queda confirmada. Te esperamos.`
+      : `No he podido confirmar la reserva ${reservation.code}. Escríbenos y lo revisamos.`;
+  } else if (response.success) {
+    answer = `Hecho, hemos cancelado tu reserva ${reservation.code}. ¡Esperamos verte pronto!`;
+  } else {
+    answer =
+      response.reason === "cancel_cutoff"
+        ? `Ya es tarde para cancelar la reserva ${reservation.code} por aquí. Llámanos, por favor.`
+        : `No he podido cancelar la reserva ${reservation.code}. Escríbenos y lo revisamos.`;
+  }
+  return { intent, reservation, response, text: answer };
+}
+
+export interface ReminderSchedulerDeps {
+  outbox: OutboundMessagePort;
+  clock?: Clock;
+  // Restaurants to look after; every active one by default.
+  restaurantIds?: () => string[];
+}
+
+export interface ReminderScheduler {
+  runDue(): Promise<ReminderRunResult>;
+  handleReply(restaurantId: string, phone: string, text: string): ReminderReplyOutcome | null;
+  start(intervalMs?: number): void;
+  stop(): void;
+}
+
+/**
+ * Sends each confirmed booking a reminder `hoursBefore` its start and, when the restaurant
+ * asks for it, releases the ones still unconfirmed `releaseHoursBefore` the start.
+ * Bookings made after their reminder time are left alone (they were just made).
+ * State lives on the reservation (`reminderSentAt`, `guestConfirmedAt`), so a run can be
+ * repeated, or the scheduler restarted, without sending anything twice.
+ */
+export function createReminderScheduler(deps: ReminderSchedulerDeps): ReminderScheduler {
+  const clock = deps.clock ?? systemClock;
+  const restaurantIds =
+    deps.restaurantIds ?? (() => RestaurantRepository.listRestaurants().filter((r) => r.status === "active").map((r) => r.id));
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running = false;
+
+  const send = async (message: OutboundMessage, result: ReminderRunResult): Promise<boolean> => {
+    try {
+      await deps.outbox.send(message);
+      return true;
+    } catch {
+      if (message.reservation_id) result.failed.push(message.reservation_id);
+      return false;
+    }
+  };
+
+  const runDue = async (): Promise<ReminderRunResult> => {
+    const result: ReminderRunResult = { reminded: [], released: [], failed: [] };
+    const now = clock.now();
+    const nowMs = now.getTime();
+
+    for (const restaurantId of restaurantIds()) {
+      const rules = getReservationSettings(restaurantId).reminders;
+      if (!rules?.enabled) continue;
+      const name = restaurantNameOf(restaurantId);
+
+      for (const r of ReservationRepository.getAll(restaurantId)) {
+        if (r.status !== "confirmed") continue;
+        const startMs = startMsOf(r);
+        if (!Number.isFinite(startMs) || startMs <= nowMs) continue;
+
+        const remindAt = startMs - rules.hoursBefore * HOUR_MS;
+        if (!r.reminderSentAt && nowMs >= remindAt && r.createdAt < remindAt && r.phone) {
+          const sent = await send(
+            { restaurant_id: restaurantId, reservation_id: r.id, phone: r.phone, kind: "reminder", text: reminderText(name, r) },
+            result
+          );
+          if (sent) {
+            ReservationRepository.update(restaurantId, r.id, { reminderSentAt: nowMs });
+            result.reminded.push(r.id);
+          }
+          continue;
+        }
+
+        const releaseAt = startMs - rules.releaseHoursBefore * HOUR_MS;
+        if (rules.releaseHoursBefore > 0 && r.reminderSentAt && !r.guestConfirmedAt && nowMs >= releaseAt) {
+          if (!ReservationRepository.cancel(restaurantId, r.id, "restaurant", { now })) continue;
+          AuditLog.record(SCHEDULER_SOURCE, r, ReservationRepository.getById(restaurantId, r.id), now);
+          result.released.push(r.id);
+          if (r.phone) {
+            await send(
+              { restaurant_id: restaurantId, reservation_id: r.id, phone: r.phone, kind: "released", text: releaseText(name, r) },
+              result
+            );
+          }
+        }
+      }
+    }
+    return result;
+  };
+
+  const handleReply = (restaurantId: string, phone: string, text: string): ReminderReplyOutcome | null =>
+    handleReminderReply(restaurantId, phone, text, clock.now());
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDue();
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    runDue,
+    handleReply,
+    start: (intervalMs = 60_000) => {
+      if (timer) return;
+      void tick();
+      timer = setInterval(() => void tick(), intervalMs);
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
@@ -1,44 +1,85 @@
 import { Reservation, ReservationStatus } from './types';
+import { getReservationSettings } from './settings';
+import { serviceMinutesOf } from './schedule';
+import { canTransition, isActiveStatus, isCancelledStatus, STATUS_LABELS } from './lifecycle';
+import { getRestaurantTimeZone, zonedTimeToEpochMs } from './timezone';
+import { generateReferenceCode, normalizeReferenceCode } from './referenceCode';
+import { storage, watchRemoteChanges } from '../store/storage';
 
 const STORAGE_KEY = 'resto_bot_reservations';
 const DEFAULT_RESTAURANT_ID_KEY = "resto_bot_default_restaurant_id";
 
 type Listener = () => void;
 const listeners = new Set<Listener>();
+watchRemoteChanges((key) => {
+  if (key === STORAGE_KEY) for (const l of listeners) l();
+});
+
+// Fired after a booking is cancelled (e.g. to offer the freed capacity to the waitlist).
+type CancelListener = (reservation: Reservation) => void;
+const cancelListeners = new Set<CancelListener>();
 
 // Helper to generate ID
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
 const loadDB = (): Reservation[] => {
-  const raw = localStorage.getItem(STORAGE_KEY);
+  const raw = storage.getItem(STORAGE_KEY);
   if (!raw) return [];
   const parsed = JSON.parse(raw) as Reservation[];
   // Lightweight migration: older records may not have restaurant_id.
   let migrated = false;
   const defaultRestaurantId =
-    localStorage.getItem(DEFAULT_RESTAURANT_ID_KEY) ||
+    storage.getItem(DEFAULT_RESTAURANT_ID_KEY) ||
     (() => {
       try {
-        const rs = JSON.parse(localStorage.getItem("resto_bot_restaurants_v1") || "[]") as any[];
+        const rs = JSON.parse(storage.getItem("resto_bot_restaurants_v1") || "[]") as any[];
         return rs?.[0]?.id || "unknown_restaurant";
       } catch {
         return "unknown_restaurant";
       }
     })();
+  const takenCodes = new Set(parsed.map(r => r.code).filter(Boolean));
   for (const r of parsed) {
     if (!(r as any).restaurant_id) {
       (r as any).restaurant_id = defaultRestaurantId;
       migrated = true;
     }
+    // Older records only knew 'active' / 'cancelled'.
+    const legacyStatus = (r as any).status;
+    if (legacyStatus === 'active' || legacyStatus === 'cancelled') {
+      r.status = legacyStatus === 'active' ? 'confirmed' : 'cancelled_by_guest';
+      r.statusHistory = [{ status: r.status, at: r.createdAt }];
+      migrated = true;
+    }
+    // Single table_id became a list so large parties can take several tables.
+    const legacyTableId = (r as any).table_id;
+    if (legacyTableId !== undefined) {
+      if (legacyTableId && !r.table_ids) r.table_ids = [legacyTableId];
+      delete (r as any).table_id;
+      migrated = true;
+    }
+    // Reference codes were added later; give older bookings one too.
+    if (!r.code) {
+      r.code = generateReferenceCode(takenCodes);
+      takenCodes.add(r.code);
+      migrated = true;
+    }
   }
   if (migrated) {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(parsed));
+    storage.setItem(STORAGE_KEY, JSON.stringify(parsed));
   }
   return parsed;
 };
 
+// Start instant of a reservation, in the restaurant's zone. Times past midnight belong
+// to the previous evening's service date, so "2026-03-06 00:30" can start on 2026-03-07.
+const startTimeMs = (r: Reservation): number => {
+  const min = serviceMinutesOf(getReservationSettings(r.restaurant_id), r.date, r.time);
+  return zonedTimeToEpochMs(r.date, min, getRestaurantTimeZone(r.restaurant_id));
+};
+
 const saveDB = (data: Reservation[]) => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  storage.setItem(STORAGE_KEY, JSON.stringify(data));
   for (const l of listeners) l();
 };
 
@@ -48,6 +89,11 @@ export const ReservationRepository = {
     return () => listeners.delete(listener);
   },
 
+  onCancelled: (listener: CancelListener): (() => void) => {
+    cancelListeners.add(listener);
+    return () => cancelListeners.delete(listener);
+  },
+
   getAll: (restaurantId: string): Reservation[] => {
     return loadDB().filter(r => r.restaurant_id === restaurantId);
   },
@@ -56,25 +102,28 @@ export const ReservationRepository = {
     const db = loadDB();
     const nowMs = now.getTime();
     return db
-      .filter(r => r.restaurant_id === restaurantId && r.phone === phone && r.status === 'active')
+      .filter(r => r.restaurant_id === restaurantId && r.phone === phone && isActiveStatus(r.status))
       .filter(r => {
-        const t = new Date(`${r.date}T${r.time}`).getTime();
+        const t = startTimeMs(r);
         return Number.isFinite(t) && t >= nowMs;
       })
-      .sort((a, b) => {
-        const dateA = new Date(`${a.date}T${a.time}`);
-        const dateB = new Date(`${b.date}T${b.time}`);
-        return dateA.getTime() - dateB.getTime();
-      });
+      .sort((a, b) => startTimeMs(a) - startTimeMs(b));
   },
 
   getById: (restaurantId: string, id: string): Reservation | undefined => {
     return loadDB().find(r => r.restaurant_id === restaurantId && r.id === id);
   },
 
-  // Active only
+  // Accepts the code as a guest would type it ("k7m-2qx").
+  getByCode: (restaurantId: string, code: string): Reservation | undefined => {
+    const normalized = normalizeReferenceCode(code);
+    if (!normalized) return undefined;
+    return loadDB().find(r => r.restaurant_id === restaurantId && r.code === normalized);
+  },
+
+  // Active only (pending, confirmed, arrived, seated)
   listByDate: (restaurantId: string, date: string): Reservation[] => {
-    return loadDB().filter(r => r.restaurant_id === restaurantId && r.date === date && r.status === 'active');
+    return loadDB().filter(r => r.restaurant_id === restaurantId && r.date === date && isActiveStatus(r.status));
   },
 
   // All statuses
@@ -90,37 +139,86 @@ export const ReservationRepository = {
     return ReservationRepository.listByDateAll(restaurantId, date);
   },
 
-  create: (restaurantId: string, data: Omit<Reservation, 'id' | 'createdAt' | 'status' | 'restaurant_id'>): Reservation => {
+  create: (
+    restaurantId: string,
+    data: Omit<Reservation, 'id' | 'code' | 'createdAt' | 'updatedAt' | 'status' | 'statusHistory' | 'restaurant_id'>,
+    // New bookings are confirmed unless the restaurant has to approve them first.
+    status: 'confirmed' | 'pending' = 'confirmed'
+  ): Reservation => {
     const db = loadDB();
+    const createdAt = Date.now();
+    let id = generateId();
+    while (db.some(r => r.id === id)) id = generateId();
     const newRes: Reservation = {
       ...data,
       restaurant_id: restaurantId,
-      id: generateId(),
-      status: 'active',
-      createdAt: Date.now()
+      id,
+      code: generateReferenceCode(new Set(db.map(r => r.code))),
+      status,
+      statusHistory: [{ status, at: createdAt }],
+      createdAt,
+      updatedAt: createdAt
     };
     db.push(newRes);
     saveDB(db);
     return newRes;
   },
 
-  update: (restaurantId: string, id: string, updates: Partial<Omit<Reservation, 'id' | 'createdAt' | 'restaurant_id'>>): Reservation | null => {
+  // Status changes go through transition() so the lifecycle rules apply.
+  update: (
+    restaurantId: string,
+    id: string,
+    updates: Partial<Omit<Reservation, 'id' | 'code' | 'createdAt' | 'updatedAt' | 'restaurant_id' | 'status' | 'statusHistory'>>
+  ): Reservation | null => {
     const db = loadDB();
     const idx = db.findIndex(r => r.restaurant_id === restaurantId && r.id === id);
     if (idx === -1) return null;
 
-    db[idx] = { ...db[idx], ...updates };
+    db[idx] = { ...db[idx], ...updates, updatedAt: Date.now() };
     saveDB(db);
     return db[idx];
   },
 
-  cancel: (restaurantId: string, id: string): boolean => {
+  /**
+   * Moves a booking to a new status, recording when it happened.
+   * Throws if the reservation doesn't exist or the lifecycle doesn't allow the change.
+   */
+  transition: (restaurantId: string, id: string, to: ReservationStatus, now: Date = new Date()): Reservation => {
     const db = loadDB();
     const idx = db.findIndex(r => r.restaurant_id === restaurantId && r.id === id);
-    if (idx === -1) return false;
+    if (idx === -1) throw new Error("Reservation not found.");
+
+    const from = db[idx].status;
+    if (!canTransition(from, to)) {
+      throw new Error(`Cannot change reservation from "${STATUS_LABELS[from]}" to "${STATUS_LABELS[to]}".`);
+    }
 
-    db[idx].status = 'cancelled';
+    db[idx] = {
+      ...db[idx],
+      status: to,
+      statusHistory: [...(db[idx].statusHistory ?? []), { status: to, at: now.getTime() }],
+      updatedAt: Date.now()
+    };
     saveDB(db);
+    if (isCancelledStatus(to)) {
+      for (const l of cancelListeners) l(db[idx]);
+    }
+    return db[idx];
+  },
+
+  // Returns false instead of throwing when the booking can't be cancelled (missing or already closed).
+  cancel: (
+    restaurantId: string,
+    id: string,
+    by: 'guest' | 'restaurant' = 'guest',
+    opts: { late?: boolean; now?: Date } = {}
+  ): boolean => {
+    const current = ReservationRepository.getById(restaurantId, id);
+    const to: ReservationStatus = by === 'guest' ? 'cancelled_by_guest' : 'cancelled_by_restaurant';
+    if (!current || !canTransition(current.status, to)) return false;
+    // Flag first so cancel listeners already see it.
+    if (opts.late) ReservationRepository.update(restaurantId, id, { lateCancel: true });
+    ReservationRepository.transition(restaurantId, id, to, opts.now);
     return true;
   }
 };
@@ -0,0 +1,145 @@
+import { CapacityBlock, CapacityConfig, Closure, OpeningRange, Weekday } from "./types";
+import { minutesToHHMM, parseTimeToMinutes } from "./timeSlots";
+
+const DAY_MIN = 24 * 60;
+
+// Pure helper: weekday of an ISO date ("YYYY-MM-DD"), independent of the host timezone.
+export function weekdayOfISODate(date: string): Weekday | null {
+  const m = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+  const dt = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  if (!Number.isFinite(dt.getTime())) return null;
+  return dt.getUTCDay() as Weekday;
+}
+
+/**
+ * Resolves the opening ranges that apply on a given date.
+ * Precedence: dateOverrides[date] > weeklyHours[weekday] > openingHours.
+ */
+export function getOpeningHoursForDate(cfg: CapacityConfig, date: string): OpeningRange[] {
+  const override = cfg.dateOverrides?.[date];
+  if (Array.isArray(override)) return override;
+
+  const weekday = weekdayOfISODate(date);
+  if (weekday !== null) {
+    const weekly = cfg.weeklyHours?.[weekday];
+    if (Array.isArray(weekly)) return weekly;
+  }
+
+  return cfg.openingHours;
+}
+
+// A date is closed if it is listed in closedDates, or closures leave no opening ranges at all.
+export function isClosedOnDate(cfg: CapacityConfig, date: string): boolean {
+  if (cfg.closedDates?.includes(date)) return true;
+  return getBookableHoursForDate(cfg, date).length === 0;
+}
+
+// Closures in force on a date.
+export function closuresOnDate(cfg: CapacityConfig, date: string): Closure[] {
+  return (cfg.closures ?? []).filter((c) => c.from <= date && date <= c.to);
+}
+
+export const isWholeDayClosure = (c: Closure): boolean => !c.start || !c.end;
+
+// Service-day minutes a closure blocks on each of its dates; a whole-day closure blocks them all.
+export function closureWindow(c: Closure): { startMin: number; endMin: number } {
+  if (isWholeDayClosure(c)) return { startMin: 0, endMin: Number.POSITIVE_INFINITY };
+  return shiftBounds({ start: c.start as string, end: c.end as string });
+}
+
+// The closure covering a service-day time on that date, if any.
+export function closureAt(cfg: CapacityConfig, date: string, timeMin: number): Closure | undefined {
+  return closuresOnDate(cfg, date).find((c) => {
+    const { startMin, endMin } = closureWindow(c);
+    return timeMin >= startMin && timeMin < endMin;
+  });
+}
+
+// Blocks held on a date, in the order they start.
+export function blocksOnDate(cfg: CapacityConfig, date: string): CapacityBlock[] {
+  return (cfg.blocks ?? [])
+    .filter((b) => b.date === date)
+    .sort((a, b) => blockWindow(a).startMin - blockWindow(b).startMin);
+}
+
+// Service-day minutes a block covers; "22:00"-"01:00" runs past midnight like a shift.
+export function blockWindow(b: CapacityBlock): { startMin: number; endMin: number } {
+  return shiftBounds({ start: b.start, end: b.end });
+}
+
+// Blocks on that date holding anything between startMin and endMin (service-day minutes).
+export function blocksOverlapping(cfg: CapacityConfig, date: string, startMin: number, endMin: number): CapacityBlock[] {
+  return blocksOnDate(cfg, date).filter((b) => {
+    const w = blockWindow(b);
+    return startMin < w.endMin && endMin > w.startMin;
+  });
+}
+
+/**
+ * Opening ranges left for new bookings once that date's closures are cut out.
+ * "Evento privado 20:00-23:00" on a 20:00-23:30 shift leaves 23:00-23:30.
+ * A piece that would start after midnight is dropped (it would read as the next day's shift).
+ */
+export function getBookableHoursForDate(cfg: CapacityConfig, date: string): OpeningRange[] {
+  const closures = closuresOnDate(cfg, date);
+  if (closures.some(isWholeDayClosure)) return [];
+
+  let ranges = getOpeningHoursForDate(cfg, date);
+  for (const c of closures) {
+    const { startMin: closedFrom, endMin: closedTo } = closureWindow(c);
+    if (!Number.isFinite(closedFrom) || !Number.isFinite(closedTo)) continue;
+    ranges = ranges.flatMap((range) => {
+      const { startMin, endMin } = shiftBounds(range);
+      if (!Number.isFinite(startMin) || !Number.isFinite(endMin)) return [range];
+      if (closedTo <= startMin || closedFrom >= endMin) return [range];
+      const pieces: OpeningRange[] = [];
+      if (closedFrom > startMin) pieces.push({ ...range, end: minutesToHHMM(closedFrom) });
+      if (closedTo < endMin && closedTo < DAY_MIN) pieces.push({ ...range, start: minutesToHHMM(closedTo) });
+      return pieces;
+    });
+  }
+  return ranges;
+}
+
+/**
+ * Shift bounds in service-day minutes. A shift belongs to the date it starts on,
+ * so an end at or before the start means it runs past midnight
+ * (e.g. 20:00-02:00 -> 1200..1560).
+ */
+export function shiftBounds(range: OpeningRange): { startMin: number; endMin: number } {
+  const startMin = parseTimeToMinutes(range.start);
+  let endMin = parseTimeToMinutes(range.end);
+  if (Number.isFinite(startMin) && Number.isFinite(endMin) && endMin <= startMin) endMin += DAY_MIN;
+  return { startMin, endMin };
+}
+
+/**
+ * Maps a clock time (minutes from midnight) to service-day minutes.
+ * Times in the after-midnight tail of a shift that started the previous evening
+ * are moved past 1440 ("00:30" -> 1470); anything else is returned unchanged.
+ */
+export function toServiceMinutes(ranges: OpeningRange[], clockMin: number): number {
+  if (!Number.isFinite(clockMin)) return clockMin;
+  for (const range of ranges) {
+    const { startMin, endMin } = shiftBounds(range);
+    if (endMin > DAY_MIN && clockMin < endMin - DAY_MIN && clockMin < startMin) return clockMin + DAY_MIN;
+  }
+  return clockMin;
+}
+
+// Service-day minutes of a stored "HH:MM" on a given service date.
+export function serviceMinutesOf(cfg: CapacityConfig, date: string, timeHHMM: string): number {
+  return toServiceMinutes(getOpeningHoursForDate(cfg, date), parseTimeToMinutes(timeHHMM));
+}
+
+/**
+ * Finds the shift (opening hour range) that contains the requested time.
+ * We consider "contained" if the time is >= start and < end (service-day minutes).
+ */
+export function findShift(ranges: OpeningRange[], timeMin: number): OpeningRange | undefined {
+  return ranges.find((range) => {
+    const { startMin, endMin } = shiftBounds(range);
+    return timeMin >= startMin && timeMin < endMin;
+  });
+}
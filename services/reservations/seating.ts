@@ -0,0 +1,111 @@
+import type { RestaurantTable, TableAttribute } from "../../types";
+import type { SeatingPreference } from "./types";
+import { needsAccessibleTable, normalizeSpecialRequests } from "./specialRequests";
+
+export const TABLE_ATTRIBUTES: { key: TableAttribute; label: string }[] = [
+  { key: "window", label: "Ventana" },
+  { key: "accessible", label: "Accesible" },
+  { key: "quiet", label: "Tranquila" },
+  { key: "sofa", label: "Sofá" },
+];
+
+const isTableAttribute = (v: unknown): v is TableAttribute => TABLE_ATTRIBUTES.some((a) => a.key === v);
+
+const normalizeText = (v: string): string =>
+  v.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim();
+
+// Same grouping as the map: no zone or "sala" is inside, anything with "terraza" is the terrace.
+const canonicalZone = (zone: string): string => {
+  const z = normalizeText(zone);
+  if (!z || z.includes("interior") || z.includes("sala")) return "interior";
+  if (z.includes("terraza")) return "terraza";
+  return z;
+};
+
+const tableZone = (t: RestaurantTable): string => canonicalZone(t.zone || "");
+
+const ZONE_KEYWORDS: { zone: string; words: RegExp }[] = [
+  { zone: "terraza", words: /\b(terraza|terrace|fuera|exterior|outside|outdoor)\b/ },
+  { zone: "interior", words: /\b(interior|dentro|inside|indoor|sala|comedor)\b/ },
+];
+
+const ATTRIBUTE_KEYWORDS: { key: TableAttribute; words: RegExp }[] = [
+  { key: "window", words: /\b(ventana|ventanal|window)\b/ },
+  { key: "accessible", words: /\b(accesible|accessible|silla de ruedas|wheelchair|movilidad reducida)\b/ },
+  { key: "quiet", words: /\b(tranquila|tranquilo|quiet|apartada|sin ruido)\b/ },
+  { key: "sofa", words: /\b(sofa|booth)\b/ },
+];
+
+// Wording that turns a wish into a requirement.
+const STRICT_WORDS = /\b(solo|solamente|imprescindible|necesariamente|obligatorio|only|must)\b/;
+
+/**
+ * Best-effort extraction of seating wishes from free-text notes
+ * ("mesa en terraza si puede ser", "only by the window").
+ * Accessibility is always treated as a hard requirement.
+ */
+export function parseSeatingFromNotes(notes?: string | null): SeatingPreference | undefined {
+  if (!notes) return undefined;
+  const text = normalizeText(notes);
+
+  const zone = ZONE_KEYWORDS.find((z) => z.words.test(text))?.zone;
+  const attributes = ATTRIBUTE_KEYWORDS.filter((a) => a.words.test(text)).map((a) => a.key);
+  if (!zone && attributes.length === 0) return undefined;
+
+  return {
+    zone,
+    attributes: attributes.length ? attributes : undefined,
+    strict: STRICT_WORDS.test(text) || attributes.includes("accessible"),
+  };
+}
+
+// Sanitizes an explicit preference (e.g. from the bot payload or the owner form).
+export function normalizeSeating(raw: unknown): SeatingPreference | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const r = raw as Record<string, unknown>;
+  const zone = typeof r.zone === "string" && r.zone.trim() ? canonicalZone(r.zone) : undefined;
+  const attributes = Array.isArray(r.attributes) ? Array.from(new Set(r.attributes.filter(isTableAttribute))) : [];
+  if (!zone && attributes.length === 0) return undefined;
+  return { zone, attributes: attributes.length ? attributes : undefined, strict: Boolean(r.strict) };
+}
+
+// Explicit preference wins; otherwise look at the notes. A wheelchair request always needs an accessible table.
+export function resolveSeating(payload: {
+  seating?: unknown;
+  notes?: string | null;
+  special_requests?: unknown;
+}): SeatingPreference | undefined {
+  const pref = normalizeSeating(payload.seating) ?? parseSeatingFromNotes(payload.notes);
+  if (!needsAccessibleTable(normalizeSpecialRequests(payload.special_requests))) return pref;
+  const attributes = pref?.attributes ?? [];
+  return {
+    ...pref,
+    attributes: attributes.includes("accessible") ? attributes : [...attributes, "accessible"],
+    strict: true,
+  };
+}
+
+export function tableMatchesSeating(t: RestaurantTable, pref?: SeatingPreference): boolean {
+  if (!pref) return true;
+  if (pref.zone && tableZone(t) !== pref.zone) return false;
+  return (pref.attributes ?? []).every((a) => t.attributes?.includes(a));
+}
+
+// A set matches when every table in it does (a party shouldn't be split between terrace and inside).
+export function tableSetMatchesSeating(set: RestaurantTable[], pref?: SeatingPreference): boolean {
+  return set.every((t) => tableMatchesSeating(t, pref));
+}
+
+export function describeSeating(pref?: SeatingPreference): string {
+  if (!pref) return "";
+  const parts = [
+    pref.zone ?? "",
+    ...(pref.attributes ?? []).map((a) => TABLE_ATTRIBUTES.find((x) => x.key === a)?.label.toLowerCase() ?? a),
+  ].filter(Boolean);
+  return parts.join(", ");
+}
+
+// Zone a fallback set sits in, to tell the guest where there is room instead.
+export function seatingZoneOf(set: RestaurantTable[]): string {
+  return set.length ? tableZone(set[0]) : "";
+}
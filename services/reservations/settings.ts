@@ -1,6 +1,7 @@
-import { CapacityConfig } from "./types";
+import { CapacityBlock, CapacityConfig, Closure } from "./types";
 import { RESERVATION_CONFIG } from "./config";
 import { RestaurantConfigRepository } from "../restaurants/configRepository";
+import { storage, watchRemoteChanges } from "../store/storage";
 
 type Listener = () => void;
 const listenersByRestaurant = new Map<string, Set<Listener>>();
@@ -8,7 +9,7 @@ const listenersByRestaurant = new Map<string, Set<Listener>>();
 const keyFor = (restaurantId: string) => `resto_bot_settings_v1:${restaurantId}`;
 
 const loadRaw = (restaurantId: string): Partial<CapacityConfig> | null => {
-  const raw = localStorage.getItem(keyFor(restaurantId));
+  const raw = storage.getItem(keyFor(restaurantId));
   if (!raw) return null;
   try {
     return JSON.parse(raw) as Partial<CapacityConfig>;
@@ -17,14 +18,42 @@ const loadRaw = (restaurantId: string): Partial<CapacityConfig> | null => {
   }
 };
 
+const isDate = (v: unknown): v is string => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+const isHHMM = (v: unknown): v is string => typeof v === "string" && /^\d{1,2}:\d{2}$/.test(v);
+
+// Drops closures that lost their dates; a half-filled time range becomes a whole-day closure.
+const sanitizeClosures = (list: unknown): Closure[] => {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((c: Closure) => c && typeof c.id === "string" && isDate(c.from) && isDate(c.to) && c.from <= c.to)
+    .map((c: Closure) => (isHHMM(c.start) && isHHMM(c.end) ? c : { ...c, start: undefined, end: undefined }));
+};
+
+// Drops blocks without a date, a time window or anything to hold.
+const sanitizeBlocks = (list: unknown): CapacityBlock[] => {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((b: CapacityBlock) => b && typeof b.id === "string" && isDate(b.date) && isHHMM(b.start) && isHHMM(b.end) && b.start !== b.end)
+    .map((b: CapacityBlock) => ({
+      ...b,
+      seats: Number.isFinite(b.seats) && b.seats > 0 ? Math.trunc(b.seats) : 0,
+      table_ids: Array.isArray(b.table_ids) ? b.table_ids.filter((id) => typeof id === "string") : undefined,
+    }))
+    .filter((b) => b.seats > 0 || (b.table_ids?.length ?? 0) > 0);
+};
+
 const notify = (restaurantId: string) => {
   const ls = listenersByRestaurant.get(restaurantId);
   if (!ls) return;
   for (const l of ls) l();
 };
 
+watchRemoteChanges((key) => {
+  if (key.startsWith(keyFor(""))) notify(key.slice(keyFor("").length));
+});
+
 const saveRaw = (restaurantId: string, data: CapacityConfig) => {
-  localStorage.setItem(keyFor(restaurantId), JSON.stringify(data));
+  storage.setItem(keyFor(restaurantId), JSON.stringify(data));
   notify(restaurantId);
 };
 
@@ -35,6 +64,8 @@ export function getReservationSettings(restaurantId: string): CapacityConfig {
     ...(stored ?? {}),
     // Ensure closedDates always exists as an array for UI convenience.
     closedDates: (stored?.closedDates ?? RESERVATION_CONFIG.closedDates ?? []).slice(),
+    weeklyHours: { ...(RESERVATION_CONFIG.weeklyHours ?? {}), ...(stored?.weeklyHours ?? {}) },
+    dateOverrides: { ...(RESERVATION_CONFIG.dateOverrides ?? {}), ...(stored?.dateOverrides ?? {}) },
   };
 
   // Basic sanitization (no throwing): keep engine stable.
@@ -43,6 +74,62 @@ export function getReservationSettings(restaurantId: string): CapacityConfig {
   if (!Number.isFinite(merged.standardDurationMin) || merged.standardDurationMin < 1) merged.standardDurationMin = RESERVATION_CONFIG.standardDurationMin;
   if (!Number.isFinite(merged.bufferMin) || merged.bufferMin < 0) merged.bufferMin = RESERVATION_CONFIG.bufferMin;
   if (!Number.isFinite(merged.slotIntervalMin) || merged.slotIntervalMin < 1) merged.slotIntervalMin = RESERVATION_CONFIG.slotIntervalMin;
+  if (!Array.isArray(merged.openingHours)) merged.openingHours = RESERVATION_CONFIG.openingHours.slice();
+  if (!Array.isArray(merged.durationRules)) merged.durationRules = [];
+  merged.closures = sanitizeClosures(merged.closures);
+  merged.blocks = sanitizeBlocks(merged.blocks);
+  const pacing = merged.pacing ?? {};
+  merged.pacing = {
+    maxCoversPerSlot: Number.isFinite(pacing.maxCoversPerSlot) && (pacing.maxCoversPerSlot as number) > 0 ? pacing.maxCoversPerSlot : 0,
+    maxReservationsPerSlot:
+      Number.isFinite(pacing.maxReservationsPerSlot) && (pacing.maxReservationsPerSlot as number) > 0 ? pacing.maxReservationsPerSlot : 0,
+  };
+  const booking = merged.bookingRules;
+  merged.bookingRules = {
+    minNoticeMin: Number.isFinite(booking?.minNoticeMin) && (booking?.minNoticeMin as number) > 0 ? Math.trunc(booking?.minNoticeMin as number) : 0,
+    maxHorizonDays:
+      Number.isFinite(booking?.maxHorizonDays) && (booking?.maxHorizonDays as number) > 0 ? Math.trunc(booking?.maxHorizonDays as number) : 0,
+    sameDayCutoff: typeof booking?.sameDayCutoff === "string" && /^\d{1,2}:\d{2}$/.test(booking.sameDayCutoff) ? booking.sameDayCutoff : undefined,
+  };
+  const change = merged.changePolicy;
+  merged.changePolicy = {
+    cancelCutoffMin:
+      Number.isFinite(change?.cancelCutoffMin) && (change?.cancelCutoffMin as number) > 0 ? Math.trunc(change?.cancelCutoffMin as number) : 0,
+    modifyCutoffMin:
+      Number.isFinite(change?.modifyCutoffMin) && (change?.modifyCutoffMin as number) > 0 ? Math.trunc(change?.modifyCutoffMin as number) : 0,
+    allowLateCancel: Boolean(change?.allowLateCancel),
+  };
+  const restrictions = merged.guestRestrictions;
+  merged.guestRestrictions = {
+    noShowThreshold:
+      Number.isFinite(restrictions?.noShowThreshold) && (restrictions?.noShowThreshold as number) > 0
+        ? Math.trunc(restrictions?.noShowThreshold as number)
+        : 0,
+    windowDays:
+      Number.isFinite(restrictions?.windowDays) && (restrictions?.windowDays as number) > 0 ? Math.trunc(restrictions?.windowDays as number) : 180,
+    action:
+      restrictions?.action === "limit_party" || restrictions?.action === "block" ? restrictions.action : "require_confirmation",
+    maxPartySize:
+      Number.isFinite(restrictions?.maxPartySize) && (restrictions?.maxPartySize as number) >= 1 ? Math.trunc(restrictions?.maxPartySize as number) : 4,
+  };
+  const combos = merged.tableCombinations;
+  merged.tableCombinations = {
+    autoAdjacent: Boolean(combos?.autoAdjacent),
+    maxTables: Number.isFinite(combos?.maxTables) && (combos?.maxTables as number) >= 1 ? Math.trunc(combos?.maxTables as number) : 3,
+  };
+  const reminders = merged.reminders;
+  const hoursBefore =
+    Number.isFinite(reminders?.hoursBefore) && (reminders?.hoursBefore as number) >= 1 ? Math.trunc(reminders?.hoursBefore as number) : 24;
+  const releaseHoursBefore =
+    Number.isFinite(reminders?.releaseHoursBefore) && (reminders?.releaseHoursBefore as number) > 0
+      ? Math.trunc(reminders?.releaseHoursBefore as number)
+      : 0;
+  merged.reminders = {
+    enabled: Boolean(reminders?.enabled),
+    hoursBefore,
+    // Releasing at or before the reminder would leave the guest no time to answer.
+    releaseHoursBefore: releaseHoursBefore < hoursBefore ? releaseHoursBefore : 0,
+  };
   if (merged.slotRounding !== "ceil" && merged.slotRounding !== "floor" && merged.slotRounding !== "nearest") {
     merged.slotRounding = RESERVATION_CONFIG.slotRounding;
   }
@@ -0,0 +1,79 @@
+import type { RestaurantConfig } from "../../types";
+import { isAllergen } from "../menu/allergens";
+import { AccessibilityNeed, Occasion, SeatingPreference, SpecialRequests } from "./types";
+
+export const OCCASION_LABELS: Record<Occasion, string> = {
+  birthday: "Cumpleaños",
+  anniversary: "Aniversario",
+  business: "Comida de empresa",
+  celebration: "Celebración",
+  other: "Ocasión especial",
+};
+
+export const ACCESSIBILITY_LABELS: Record<AccessibilityNeed, string> = {
+  wheelchair: "Silla de ruedas",
+  reduced_mobility: "Movilidad reducida",
+  visual: "Discapacidad visual",
+  hearing: "Discapacidad auditiva",
+};
+
+// A request the restaurant can't honour, per its RestaurantConfig flags.
+export type UnsupportedRequest = "high_chair" | "pets" | "terrace";
+
+const isOccasion = (v: unknown): v is Occasion => typeof v === "string" && v in OCCASION_LABELS;
+const isAccessibilityNeed = (v: unknown): v is AccessibilityNeed => typeof v === "string" && v in ACCESSIBILITY_LABELS;
+
+/**
+ * Reads `special_requests` as the bot sends it (snake_case, nulls for "not said").
+ * Unknown values are dropped; returns undefined when nothing is left.
+ */
+export function normalizeSpecialRequests(raw: unknown): SpecialRequests | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const r = raw as Record<string, unknown>;
+  const out: SpecialRequests = {};
+
+  const highChairs = Math.trunc(Number(r.high_chairs ?? r.highChairs));
+  if (Number.isFinite(highChairs) && highChairs > 0) out.highChairs = highChairs;
+
+  const accessibility = Array.isArray(r.accessibility) ? Array.from(new Set(r.accessibility.filter(isAccessibilityNeed))) : [];
+  if (accessibility.length > 0) out.accessibility = accessibility;
+
+  if (isOccasion(r.occasion)) out.occasion = r.occasion;
+
+  const allergens = Array.isArray(r.allergens)
+    ? Array.from(new Set(r.allergens.map((a) => String(a).trim().toLowerCase()).filter(isAllergen)))
+    : [];
+  if (allergens.length > 0) out.allergens = allergens;
+
+  if (r.pets === true) out.pets = true;
+
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
+// Wheelchair users and guests with reduced mobility need an accessible table, not a wish.
+export function needsAccessibleTable(requests?: SpecialRequests): boolean {
+  return Boolean(requests?.accessibility?.some((a) => a === "wheelchair" || a === "reduced_mobility"));
+}
+
+// First request the restaurant can't meet, or null if all are fine.
+export function findUnsupportedRequest(
+  config: RestaurantConfig,
+  requests: SpecialRequests | undefined,
+  seating?: SeatingPreference
+): UnsupportedRequest | null {
+  if ((requests?.highChairs ?? 0) > 0 && !config.hasHighChair) return "high_chair";
+  if (requests?.pets && !config.petsAllowed) return "pets";
+  if (seating?.strict && seating.zone === "terraza" && !config.hasTerrace) return "terrace";
+  return null;
+}
+
+// Short badge texts for the owner panel.
+export function describeSpecialRequests(requests?: SpecialRequests): string[] {
+  if (!requests) return [];
+  const out: string[] = [];
+  if (requests.highChairs) out.push(`${requests.highChairs} trona${requests.highChairs === 1 ? "" : "s"}`);
+  for (const a of requests.accessibility ?? []) out.push(ACCESSIBILITY_LABELS[a]);
+  if (requests.occasion) out.push(OCCASION_LABELS[requests.occasion]);
+  if (requests.pets) out.push("Mascota");
+  return out;
+}
@@ -1,19 +1,52 @@
 import type { RestaurantTable } from "../../types";
-import type { Reservation } from "./types";
+import type { CapacityConfig, Reservation, SeatingPreference } from "./types";
 import { getReservationSettings } from "./settings";
-import { parseTimeToMinutes, minutesToHHMM, roundToSlot } from "./timeSlots";
+import { minutesToHHMM, roundToSlot } from "./timeSlots";
+import { blocksOverlapping, findShift, getOpeningHoursForDate, serviceMinutesOf, shiftBounds } from "./schedule";
+import { resolveDurationMin } from "./duration";
+import { occupancyWindow } from "./lifecycle";
+import { tableSetMatchesSeating } from "./seating";
 
 type Window = { startMin: number; endMin: number };
 
 const isOverlapping = (a: Window, b: Window): boolean => a.startMin < b.endMin && a.endMin > b.startMin;
 
-const toWindow = (timeHHMM: string, durationMin: number, bufferMin: number): Window | null => {
-  const startMin = parseTimeToMinutes(timeHHMM);
+// Windows are in service-day minutes, so a 00:30 booking after a 23:30 one overlaps correctly.
+const toWindow = (startMin: number, durationMin: number, bufferMin: number): Window | null => {
   if (!Number.isFinite(startMin)) return null;
   return { startMin, endMin: startMin + durationMin + bufferMin };
 };
 
-export function listAvailableTablesForReservation(
+// Normalized map distance under which two tables count as adjacent.
+const ADJACENT_MAX_DISTANCE = 0.15;
+
+export const seatsOf = (t: RestaurantTable): number => (t.kind === "stool" ? 1 : t.capacity);
+
+const seatsOfSet = (set: RestaurantTable[]): number => set.reduce((sum, t) => sum + seatsOf(t), 0);
+
+const bySeatsThenName = (a: RestaurantTable, b: RestaurantTable): number =>
+  seatsOf(a) - seatsOf(b) || a.name.localeCompare(b.name);
+
+/**
+ * Whether two tables can be joined: either the owner listed them as combinable,
+ * or (when enabled) they sit next to each other in the same zone of the map.
+ */
+export function areTablesCombinable(cfg: CapacityConfig, a: RestaurantTable, b: RestaurantTable): boolean {
+  if (a.id === b.id) return false;
+  if (a.combinable_with?.includes(b.id) || b.combinable_with?.includes(a.id)) return true;
+  if (!cfg.tableCombinations?.autoAdjacent) return false;
+  if (a.kind === "stool" || b.kind === "stool") return false;
+  if ((a.zone || "") !== (b.zone || "")) return false;
+  if (a.layout_x === undefined || a.layout_y === undefined || b.layout_x === undefined || b.layout_y === undefined) return false;
+  return Math.hypot(a.layout_x - b.layout_x, a.layout_y - b.layout_y) <= ADJACENT_MAX_DISTANCE;
+}
+
+/**
+ * Tables of any size that are free for the whole booking window: not blocked, not held
+ * for an event and not taken by an overlapping booking.
+ */
+function listFreeTables(
+  cfg: CapacityConfig,
   restaurantId: string,
   date: string,
   time: string,
@@ -22,41 +55,35 @@ export function listAvailableTablesForReservation(
   reservations: Reservation[],
   excludeReservationId?: string
 ): RestaurantTable[] {
-  const cfg = getReservationSettings(restaurantId);
-  const rawMin = parseTimeToMinutes(time);
+  const rawMin = serviceMinutesOf(cfg, date, time);
   if (!Number.isFinite(rawMin)) return [];
   const roundedMin = roundToSlot(rawMin, cfg.slotIntervalMin, cfg.slotRounding);
-  const normalizedTime = minutesToHHMM(roundedMin);
 
-  const target = toWindow(normalizedTime, cfg.standardDurationMin, cfg.bufferMin);
+  const shift = findShift(getOpeningHoursForDate(cfg, date), roundedMin);
+  const target = toWindow(roundedMin, resolveDurationMin(cfg, partySize, shift), cfg.bufferMin);
   if (!target) return [];
 
-  const relevant = reservations.filter((r) => r.restaurant_id === restaurantId && r.date === date && r.status === "active");
+  const relevant = reservations.filter((r) => r.restaurant_id === restaurantId && r.date === date);
+  const held = new Set(blocksOverlapping(cfg, date, target.startMin, target.endMin).flatMap((b) => b.table_ids ?? []));
 
   return tables
     .filter((t) => t.restaurant_id === restaurantId)
     .filter((t) => t.status !== "blocked")
-    .filter((t) => (t.kind === "stool" ? 1 : t.capacity) >= partySize)
+    .filter((t) => !held.has(t.id))
     .filter((t) => {
       for (const r of relevant) {
         if (excludeReservationId && r.id === excludeReservationId) continue;
-        if (!r.table_id) continue;
-        if (r.table_id !== t.id) continue;
-        const w = toWindow(r.time, cfg.standardDurationMin, cfg.bufferMin);
+        if (!r.table_ids?.includes(t.id)) continue;
+        const w = occupancyWindow(cfg, r);
         if (!w) continue;
         if (isOverlapping(target, w)) return false;
       }
       return true;
-    })
-    .slice()
-    .sort((a, b) => {
-      const ca = a.kind === "stool" ? 1 : a.capacity;
-      const cb = b.kind === "stool" ? 1 : b.capacity;
-      return ca - cb || a.name.localeCompare(b.name);
     });
 }
 
-export function pickTableForReservation(
+// Single tables that seat the whole party.
+export function listAvailableTablesForReservation(
   restaurantId: string,
   date: string,
   time: string,
@@ -64,9 +91,101 @@ export function pickTableForReservation(
   tables: RestaurantTable[],
   reservations: Reservation[],
   excludeReservationId?: string
-): RestaurantTable | null {
-  const avail = listAvailableTablesForReservation(restaurantId, date, time, partySize, tables, reservations, excludeReservationId);
-  return avail[0] ?? null;
+): RestaurantTable[] {
+  const cfg = getReservationSettings(restaurantId);
+  return listFreeTables(cfg, restaurantId, date, time, partySize, tables, reservations, excludeReservationId)
+    .filter((t) => seatsOf(t) >= partySize)
+    .sort(bySeatsThenName);
+}
+
+/**
+ * Table sets that can seat the party: single tables plus combinations of up to
+ * `tableCombinations.maxTables` free tables, each joined to another in the set.
+ * Best fit first (fewest empty seats, then fewest tables). A strict seating
+ * preference drops non-matching sets; a soft one only moves matching sets first.
+ */
+export function listTableCombinations(
+  restaurantId: string,
+  date: string,
+  time: string,
+  partySize: number,
+  tables: RestaurantTable[],
+  reservations: Reservation[],
+  excludeReservationId?: string,
+  seating?: SeatingPreference
+): RestaurantTable[][] {
+  const cfg = getReservationSettings(restaurantId);
+  const free = listFreeTables(cfg, restaurantId, date, time, partySize, tables, reservations, excludeReservationId).sort(
+    bySeatsThenName
+  );
+  const maxTables = cfg.tableCombinations?.maxTables ?? 1;
+
+  const out: RestaurantTable[][] = [];
+  const seen = new Set<string>();
+  let frontier: RestaurantTable[][] = free.map((t) => [t]);
+
+  for (let size = 1; size <= maxTables && frontier.length > 0; size++) {
+    const next: RestaurantTable[][] = [];
+    for (const set of frontier) {
+      const key = set.map((t) => t.id).sort().join("+");
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      // Stop growing a set once it fits: a bigger one would only waste seats.
+      if (seatsOfSet(set) >= partySize) {
+        out.push(set);
+        continue;
+      }
+      if (size === maxTables) continue;
+      for (const candidate of free) {
+        if (set.includes(candidate)) continue;
+        if (!set.some((t) => areTablesCombinable(cfg, t, candidate))) continue;
+        next.push([...set, candidate]);
+      }
+    }
+    frontier = next;
+  }
+
+  const ranked = out
+    .map((set) => set.slice().sort(bySeatsThenName))
+    .sort((a, b) => seatsOfSet(a) - seatsOfSet(b) || a.length - b.length || a[0].name.localeCompare(b[0].name));
+  if (!seating) return ranked;
+  const matching = ranked.filter((set) => tableSetMatchesSeating(set, seating));
+  if (seating.strict) return matching;
+  return [...matching, ...ranked.filter((set) => !tableSetMatchesSeating(set, seating))];
+}
+
+// Whether a given set of tables is free and seats the party (e.g. to keep an assignment on update).
+export function isTableSetAvailable(
+  restaurantId: string,
+  date: string,
+  time: string,
+  partySize: number,
+  tableIds: string[],
+  tables: RestaurantTable[],
+  reservations: Reservation[],
+  excludeReservationId?: string
+): boolean {
+  if (tableIds.length === 0) return false;
+  const cfg = getReservationSettings(restaurantId);
+  const free = listFreeTables(cfg, restaurantId, date, time, partySize, tables, reservations, excludeReservationId);
+  const set = tableIds.map((id) => free.find((t) => t.id === id));
+  if (set.some((t) => !t)) return false;
+  return seatsOfSet(set as RestaurantTable[]) >= partySize;
+}
+
+export function pickTableForReservation(
+  restaurantId: string,
+  date: string,
+  time: string,
+  partySize: number,
+  tables: RestaurantTable[],
+  reservations: Reservation[],
+  excludeReservationId?: string,
+  seating?: SeatingPreference
+): RestaurantTable[] | null {
+  const options = listTableCombinations(restaurantId, date, time, partySize, tables, reservations, excludeReservationId, seating);
+  return options[0] ?? null;
 }
 
 export function suggestAlternativeTimesByTables(
@@ -76,28 +195,24 @@ export function suggestAlternativeTimesByTables(
   partySize: number,
   tables: RestaurantTable[],
   reservations: Reservation[],
-  limit = 2
+  limit = 2,
+  seating?: SeatingPreference
 ): { date: string; time: string }[] {
   const cfg = getReservationSettings(restaurantId);
-  const rawMin = parseTimeToMinutes(time);
+  const rawMin = serviceMinutesOf(cfg, date, time);
   if (!Number.isFinite(rawMin)) return [];
   const roundedMin = roundToSlot(rawMin, cfg.slotIntervalMin, cfg.slotRounding);
   const reqMin = roundedMin;
 
   // Find shift for requested time (or nearest shift), then scan slots for any free table.
-  const shifts = cfg.openingHours.slice();
-  const timeInShift = shifts.find((s) => {
-    const start = parseTimeToMinutes(s.start);
-    const end = parseTimeToMinutes(s.end);
-    return reqMin >= start && reqMin < end;
-  });
+  const shifts = getOpeningHoursForDate(cfg, date).slice();
+  const timeInShift = findShift(shifts, reqMin);
 
   const activeShift = timeInShift ?? shifts[0] ?? null;
   if (!activeShift) return [];
 
-  const shiftStart = parseTimeToMinutes(activeShift.start);
-  const shiftEnd = parseTimeToMinutes(activeShift.end);
-  const latestStart = shiftEnd - cfg.standardDurationMin;
+  const { startMin: shiftStart, endMin: shiftEnd } = shiftBounds(activeShift);
+  const latestStart = shiftEnd - resolveDurationMin(cfg, partySize, activeShift);
   if (!Number.isFinite(shiftStart) || !Number.isFinite(shiftEnd)) return [];
 
   const candidates: number[] = [];
@@ -117,7 +232,7 @@ export function suggestAlternativeTimesByTables(
   for (const t of candidates) {
     if (out.length >= limit) break;
     const hhmm = minutesToHHMM(t);
-    const ok = pickTableForReservation(restaurantId, date, hhmm, partySize, tables, reservations) != null;
+    const ok = pickTableForReservation(restaurantId, date, hhmm, partySize, tables, reservations, undefined, seating) != null;
     if (ok) out.push({ date, time: hhmm });
   }
   return out;
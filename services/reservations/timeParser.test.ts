@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryStore, setStorageBackend } from '../store/storage';
+import { getReservationSettings } from './settings';
+import { parseTimeExpression, resolveRequestedTime } from './timeParser';
+import { CapacityConfig, OpeningRange } from './types';
+
+const DATE = '2026-10-23';
+const hhmm = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+describe('parseTimeExpression', () => {
+  it('reads two-digit HH:MM hours as a 24-hour clock', () => {
+    expect(parseTimeExpression('09:00')).toEqual({ minutes: 9 * 60, ambiguous: false });
+    expect(parseTimeExpression('10:00')).toEqual({ minutes: 10 * 60, ambiguous: false });
+    expect(parseTimeExpression('11:30')).toEqual({ minutes: 11 * 60 + 30, ambiguous: false });
+    expect(parseTimeExpression('a las 21:30')).toEqual({ minutes: 21 * 60 + 30, ambiguous: false });
+  });
+
+  it('leaves a bare morning hour for the shifts to decide', () => {
+    expect(parseTimeExpression('a las 9')?.ambiguous).toBe(true);
+    expect(parseTimeExpression('a las 10')?.ambiguous).toBe(true);
+    expect(parseTimeExpression('9:30')?.ambiguous).toBe(true);
+    expect(parseTimeExpression('a las diez y media')?.ambiguous).toBe(true);
+  });
+
+  it('follows a spoken meridiem', () => {
+    expect(parseTimeExpression('a las 10 de la noche')).toEqual({ minutes: 22 * 60, ambiguous: false });
+    expect(parseTimeExpression('half past nine pm')).toEqual({ minutes: 21 * 60 + 30, ambiguous: false });
+  });
+});
+
+describe('resolveRequestedTime', () => {
+  let base: CapacityConfig;
+  const withHours = (openingHours: OpeningRange[]): CapacityConfig => ({
+    ...base,
+    openingHours,
+    weeklyHours: undefined,
+    dateOverrides: undefined,
+  });
+  const resolve = (cfg: CapacityConfig, text: string) => hhmm(resolveRequestedTime(cfg, DATE, text));
+
+  beforeEach(() => {
+    setStorageBackend(createMemoryStore());
+    base = getReservationSettings('resto-test');
+  });
+
+  it('keeps 10:00 and 11:30 as written outside the shifts', () => {
+    const dinnerOnly = withHours([{ start: '20:00', end: '23:30' }]);
+    expect(resolve(dinnerOnly, '10:00')).toBe('10:00');
+    const lunchAndDinner = withHours([
+      { start: '13:00', end: '16:00' },
+      { start: '20:00', end: '23:30' },
+    ]);
+    expect(resolve(lunchAndDinner, '11:30')).toBe('11:30');
+  });
+
+  it('moves a bare hour into the evening when only dinner is served', () => {
+    const dinnerOnly = withHours([{ start: '20:00', end: '23:30' }]);
+    expect(resolve(dinnerOnly, 'a las 10')).toBe('22:00');
+    expect(resolve(dinnerOnly, 'a las 9')).toBe('21:00');
+  });
+});
@@ -0,0 +1,207 @@
+import { CapacityConfig, OpeningRange } from "./types";
+import { findShift, getOpeningHoursForDate, shiftBounds, toServiceMinutes } from "./schedule";
+
+export type Meridiem = "am" | "pm";
+
+// A clock time read from text. `ambiguous` = an hour from 1 to 11 with nothing saying
+// morning or evening ("a las 9", "9:30"); the caller picks using the shifts. "10:30" is
+// written on a 24-hour clock and is not ambiguous. A bare 12 is noon.
+export interface ParsedTime {
+  minutes: number; // from midnight, 0-1439, as written
+  ambiguous: boolean;
+}
+
+const HOUR_WORDS: Record<string, number> = {
+  una: 1, one: 1,
+  dos: 2, two: 2,
+  tres: 3, three: 3,
+  cuatro: 4, four: 4,
+  cinco: 5, five: 5,
+  seis: 6, six: 6,
+  siete: 7, seven: 7,
+  ocho: 8, eight: 8,
+  nueve: 9, nine: 9,
+  diez: 10, ten: 10,
+  once: 11, eleven: 11,
+  doce: 12, twelve: 12,
+};
+
+const MINUTE_WORDS: Record<string, number> = {
+  "en punto": 0,
+  "y cinco": 5,
+  "y diez": 10,
+  "y cuarto": 15,
+  "y veinte": 20,
+  "y veinticinco": 25,
+  "y media": 30,
+  "menos veinticinco": -25,
+  "menos veinte": -20,
+  "menos cuarto": -15,
+  "menos diez": -10,
+  "menos cinco": -5,
+};
+
+// Longest first so "veinticinco" wins over "veinte".
+const alternation = (words: string[]): string => words.slice().sort((a, b) => b.length - a.length).join("|");
+const HOUR_RE = `(\\d{1,2}|${alternation(Object.keys(HOUR_WORDS))})`;
+const MINUTE_WORD_RE = alternation(Object.keys(MINUTE_WORDS));
+
+const MERIDIEM_WORDS: Record<string, Meridiem> = {
+  am: "am",
+  pm: "pm",
+  "de la manana": "am",
+  "de la madrugada": "am",
+  "in the morning": "am",
+  "del mediodia": "pm",
+  "de la tarde": "pm",
+  "de la noche": "pm",
+  "in the afternoon": "pm",
+  "in the evening": "pm",
+  "at night": "pm",
+};
+const MERIDIEM_RE = alternation(Object.keys(MERIDIEM_WORDS));
+
+// Lowercase, no accents, "p.m." -> "pm", single spaces.
+const clean = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\b([ap])\.? ?m\b\.?/g, "$1m")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const toHour = (word: string): number => (/^\d+$/.test(word) ? Number(word) : HOUR_WORDS[word]);
+
+/**
+ * Applies a spoken meridiem. "12 de la noche" is midnight; "doce del mediodía" is noon.
+ * Returns NaN for combinations that make no sense ("15 de la mañana").
+ */
+const applyMeridiem = (hour: number, meridiem: Meridiem, word: string): number => {
+  if (hour > 12) return hour >= 13 && meridiem === "pm" ? hour : Number.NaN;
+  if (hour === 12) return meridiem === "am" || word === "de la noche" || word === "at night" ? 0 : 12;
+  return meridiem === "pm" ? hour + 12 : hour;
+};
+
+const FIXED_TIMES: [RegExp, number][] = [
+  [/(?<!del )\b(?:mediodia|noon)\b/, 12 * 60],
+  [/\b(?:medianoche|midnight)\b/, 0],
+];
+
+// Words that introduce a time: with them even a bare "9" is one ("mesa para 4 a las 9").
+const LEAD_RE = "(?:\\b(a las|a la|las|la|sobre las|hacia las|at|about|around) )?";
+
+// Digits "21:30", "21.30", "21h30", "21h", "9pm", "9 y media", "9:30 de la noche", "09:00".
+const DIGITS_RE = new RegExp(
+  `${LEAD_RE}\\b(\\d{1,2})(?!\\d)(?:(?::|\\.|h ?)(\\d{2})(?!\\d)|( ?h(?:s|rs?|oras?)?\\b))?(?: (${MINUTE_WORD_RE})\\b)?(?: ?(${MERIDIEM_RE})\\b)?`,
+  "g"
+);
+// Words "a las nueve y media", "las diez menos cuarto de la noche", "seis en punto".
+const WORDS_RE = new RegExp(`${LEAD_RE}\\b${HOUR_RE}(?!\\d)(?: (${MINUTE_WORD_RE})\\b)?(?: (${MERIDIEM_RE})\\b)?`, "g");
+// English "half past nine", "quarter to ten".
+const PAST_TO_RE = new RegExp(`\\b(half past|quarter past|quarter to) ${HOUR_RE}\\b(?: (${MERIDIEM_RE})\\b)?`);
+
+/**
+ * First match that reads as a time: it has a lead-in, minutes, an "h" or a meridiem, or it is
+ * the whole text. A loose number elsewhere ("para 4", "el 14/02") is not a time.
+ */
+const firstTimeMatch = (re: RegExp, source: string): RegExpExecArray | null => {
+  re.lastIndex = 0;
+  for (let m = re.exec(source); m; m = re.exec(source)) {
+    if (m[0].length === 0) {
+      re.lastIndex++;
+      continue;
+    }
+    const [, lead, , ...markers] = m;
+    if (lead || markers.some(Boolean) || m[0] === source) return m;
+  }
+  return null;
+};
+
+const build = (hour: number, minute: number, meridiemWord: string | undefined, explicit24h: boolean): ParsedTime | null => {
+  if (!Number.isInteger(hour) || !Number.isInteger(minute) || minute < 0 || minute > 59) return null;
+  let h = hour;
+  if (meridiemWord) {
+    h = applyMeridiem(hour, MERIDIEM_WORDS[meridiemWord], meridiemWord);
+    if (!Number.isFinite(h)) return null;
+  }
+  if (h < 0 || h > 23) return null;
+  const ambiguous = !meridiemWord && !explicit24h && h >= 1 && h <= 11;
+  return { minutes: h * 60 + minute, ambiguous };
+};
+
+// Hour plus "y media" / "menos cuarto": "las diez menos cuarto" is 9:45, "la una menos cuarto" 12:45.
+const buildSpoken = (hour: number, minuteWord: string | undefined, meridiemWord: string | undefined): ParsedTime | null => {
+  const offset = minuteWord ? MINUTE_WORDS[minuteWord] : 0;
+  if (offset >= 0) return build(hour, offset, meridiemWord, false);
+  return build(hour === 1 ? 12 : hour - 1, 60 + offset, meridiemWord, false);
+};
+
+/**
+ * Reads a time from a message or a payload field. Besides "21:00" it understands
+ * "21h", "9pm", "9 de la noche", "a las nueve y media", "diez menos cuarto",
+ * "half past nine", "mediodía" and "medianoche". Returns null when there's no time.
+ */
+export function parseTimeExpression(text: string): ParsedTime | null {
+  const source = clean(text);
+  if (!source) return null;
+
+  for (const [re, minutes] of FIXED_TIMES) {
+    if (re.test(source)) return { minutes, ambiguous: false };
+  }
+
+  const past = PAST_TO_RE.exec(source);
+  if (past) {
+    const hour = toHour(past[2]);
+    const offset = past[1] === "half past" ? 30 : past[1] === "quarter past" ? 15 : -15;
+    const base = build(hour, 0, past[3], false);
+    if (!base) return null;
+    return { minutes: (base.minutes + offset + 24 * 60) % (24 * 60), ambiguous: base.ambiguous };
+  }
+
+  const digits = firstTimeMatch(DIGITS_RE, source);
+  if (digits) {
+    const [, , h, mm, hSuffix, minuteWord, meridiem] = digits;
+    if (minuteWord && mm === undefined && !hSuffix) return buildSpoken(Number(h), minuteWord, meridiem);
+    // Two-digit hours ("09:00", "10:30") and an "h" after an afternoon hour ("21h") are a 24-hour clock.
+    const explicit24h = (h.length === 2 && (h.startsWith("0") || mm !== undefined)) || (Boolean(hSuffix) && Number(h) > 12);
+    return build(Number(h), mm === undefined ? 0 : Number(mm), meridiem, explicit24h);
+  }
+
+  const words = firstTimeMatch(WORDS_RE, source);
+  if (words) {
+    const [, , h, minuteWord, meridiem] = words;
+    return buildSpoken(toHour(h), minuteWord, meridiem);
+  }
+
+  return null;
+}
+
+// How far (in minutes) a service-day time falls outside the day's shifts; 0 when inside one.
+const distanceToShifts = (ranges: OpeningRange[], serviceMin: number): number => {
+  if (findShift(ranges, serviceMin)) return 0;
+  let best = Number.POSITIVE_INFINITY;
+  for (const range of ranges) {
+    const { startMin, endMin } = shiftBounds(range);
+    if (!Number.isFinite(startMin) || !Number.isFinite(endMin)) continue;
+    best = Math.min(best, Math.abs(serviceMin - startMin), Math.abs(serviceMin - endMin));
+  }
+  return best;
+};
+
+/**
+ * Service-day minutes of a requested time on a service date, or NaN if no time can be read.
+ * An ambiguous hour goes to whichever reading lands in (or nearest to) that day's shifts:
+ * "9" is 21:00 when the restaurant only opens for dinner. Ties keep the hour as written.
+ */
+export function resolveRequestedTime(cfg: CapacityConfig, date: string, text: string): number {
+  const parsed = parseTimeExpression(String(text ?? ""));
+  if (!parsed) return Number.NaN;
+
+  const ranges = getOpeningHoursForDate(cfg, date);
+  const asWritten = toServiceMinutes(ranges, parsed.minutes);
+  if (!parsed.ambiguous || ranges.length === 0) return asWritten;
+
+  const flipped = toServiceMinutes(ranges, (parsed.minutes + 12 * 60) % (24 * 60));
+  return distanceToShifts(ranges, flipped) < distanceToShifts(ranges, asWritten) ? flipped : asWritten;
+}
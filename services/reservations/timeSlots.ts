@@ -1,7 +1,7 @@
 export type SlotRoundingMode = "nearest" | "floor" | "ceil";
 
 // Pure parsing helper: returns minutes from midnight.
-// Accepts "21", "21:0", "21:00", "9", "9:15".
+// Accepts "21", "21:0", "21:00", "9", "9:15" and "24:00" (end of day, for shift ends).
 // Returns NaN for invalid inputs (callers decide how to handle it).
 export function parseTimeToMinutes(input: string): number {
   const raw = input.trim();
@@ -13,6 +13,7 @@ export function parseTimeToMinutes(input: string): number {
   const h = Number(m[1]);
   const mm = m[2] === undefined ? 0 : Number(m[2]);
   if (!Number.isInteger(h) || !Number.isInteger(mm)) return Number.NaN;
+  if (h === 24 && mm === 0) return 24 * 60;
   if (h < 0 || h > 23) return Number.NaN;
   if (mm < 0 || mm > 59) return Number.NaN;
 
@@ -20,12 +21,13 @@ export function parseTimeToMinutes(input: string): number {
 }
 
 // Pure formatting helper: minutes -> "HH:MM".
-// Clamps into [0, 1439] to guarantee 00-23 output hours.
+// Service-day minutes past midnight wrap around (1470 -> "00:30"), so output hours stay 00-23.
 export function minutesToHHMM(min: number): string {
   if (!Number.isFinite(min)) return "00:00";
-  const clamped = Math.max(0, Math.min(24 * 60 - 1, Math.round(min)));
-  const h = Math.floor(clamped / 60);
-  const m = clamped % 60;
+  const day = 24 * 60;
+  const wrapped = ((Math.round(min) % day) + day) % day;
+  const h = Math.floor(wrapped / 60);
+  const m = wrapped % 60;
   return `${h.toString().padStart(2, "0")}:${m.toString().padStart(2, "0")}`;
 }
 
@@ -0,0 +1,107 @@
+import { DEFAULT_CONFIG } from "../../constants";
+import { RestaurantConfigRepository } from "../restaurants/configRepository";
+
+// Wall-clock fields of an instant as seen in a given IANA zone.
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const pad2 = (n: number): string => String(n).padStart(2, "0");
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The restaurant's configured zone; older configs without one use the default.
+export function getRestaurantTimeZone(restaurantId: string): string {
+  const tz = RestaurantConfigRepository.get(restaurantId).timezone;
+  return tz && isValidTimeZone(tz) ? tz : DEFAULT_CONFIG.timezone;
+}
+
+export function zonedParts(instant: Date, timeZone: string): ZonedParts {
+  const out: Record<string, number> = {};
+  for (const p of formatterFor(timeZone).formatToParts(instant)) {
+    if (p.type !== "literal") out[p.type] = Number(p.value);
+  }
+  return { year: out.year, month: out.month, day: out.day, hour: out.hour, minute: out.minute, second: out.second };
+}
+
+// Offset of the zone from UTC at that instant, in ms (e.g. +3_600_000 for CET).
+const offsetMs = (epochMs: number, timeZone: string): number => {
+  const p = zonedParts(new Date(epochMs), timeZone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUTC - Math.floor(epochMs / 1000) * 1000;
+};
+
+// Calendar date ("YYYY-MM-DD") of an instant in the zone.
+export function isoDateInZone(instant: Date, timeZone: string): string {
+  const p = zonedParts(instant, timeZone);
+  return `${p.year}-${pad2(p.month)}-${pad2(p.day)}`;
+}
+
+// "HH:MM" of an instant in the zone.
+export function formatTimeInZone(epochMs: number, timeZone: string): string {
+  const p = zonedParts(new Date(epochMs), timeZone);
+  return `${pad2(p.hour)}:${pad2(p.minute)}`;
+}
+
+/**
+ * Plain calendar arithmetic on "YYYY-MM-DD" (no zone involved).
+ * Returns null for an invalid date.
+ */
+export function addDaysISO(date: string, days: number): string | null {
+  const m = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+  const y = Number(m[1]);
+  const mo = Number(m[2]);
+  const d = Number(m[3]);
+  const dt = new Date(Date.UTC(y, mo - 1, d));
+  if (dt.getUTCFullYear() !== y || dt.getUTCMonth() !== mo - 1 || dt.getUTCDate() !== d) return null;
+  dt.setUTCDate(dt.getUTCDate() + days);
+  return `${dt.getUTCFullYear()}-${pad2(dt.getUTCMonth() + 1)}-${pad2(dt.getUTCDate())}`;
+}
+
+/**
+ * Epoch ms of a wall-clock time in the zone. `minutes` counts from that date's
+ * midnight and may pass 1440 (service-day times after midnight).
+ */
+export function zonedTimeToEpochMs(date: string, minutes: number, timeZone: string): number {
+  const m = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m || !Number.isFinite(minutes)) return Number.NaN;
+  const guess = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]), 0, minutes);
+  const first = guess - offsetMs(guess, timeZone);
+  // Re-check once: the offset may differ on the other side of a DST change.
+  const second = guess - offsetMs(first, timeZone);
+  return second;
+}
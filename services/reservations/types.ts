@@ -1,17 +1,112 @@
-export type ReservationStatus = 'active' | 'cancelled';
+import type { TableAttribute } from '../../types';
+
+export type ReservationStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'arrived'
+  | 'seated'
+  | 'completed'
+  | 'no_show'
+  | 'cancelled_by_guest'
+  | 'cancelled_by_restaurant';
+
+// What the guest asked for. Strict preferences are requirements; otherwise they're wishes.
+export interface SeatingPreference {
+  zone?: string; // "terraza", "interior", ...
+  attributes?: TableAttribute[];
+  strict: boolean;
+}
+
+export type Occasion = 'birthday' | 'anniversary' | 'business' | 'celebration' | 'other';
+export type AccessibilityNeed = 'wheelchair' | 'reduced_mobility' | 'visual' | 'hearing';
+
+// What the guest asked for beyond a table, in a form the floor staff can act on.
+export interface SpecialRequests {
+  highChairs?: number;
+  accessibility?: AccessibilityNeed[];
+  occasion?: Occasion;
+  allergens?: string[]; // Same vocabulary as the menu (ALLERGEN_OPTIONS)
+  pets?: boolean;
+}
+
+export interface StatusChange {
+  status: ReservationStatus;
+  at: number; // epoch ms
+}
+
+// Where a booking came from.
+export type ReservationSource = 'whatsapp' | 'phone' | 'walk_in' | 'web';
 
 export interface Reservation {
   id: string;
   restaurant_id: string;
+  // Short code the guest can quote ("K7M2QX"); unique across all reservations.
+  code: string;
   name: string;
   phone: string; // The primary identifier
   date: string; // YYYY-MM-DD
   time: string; // HH:MM
   partySize: number;
-  table_id?: string;
+  // One table, or several pushed together for a larger party.
+  table_ids?: string[];
+  seating?: SeatingPreference;
+  requests?: SpecialRequests;
   notes?: string;
+  source?: ReservationSource; // Older records without one came through WhatsApp
+  // Computed at booking time so later settings changes don't reshape existing bookings.
+  durationMin?: number;
   status: ReservationStatus;
+  // Every status the booking went through, oldest first.
+  statusHistory?: StatusChange[];
+  // Cancelled by the guest inside the cancellation cutoff (allowed, but counted).
+  lateCancel?: boolean;
+  // Reminder flow: when the reminder went out and when the guest replied to confirm.
+  reminderSentAt?: number;
+  guestConfirmedAt?: number;
   createdAt: number;
+  // Last write to the record; the browser's and the server's copies merge per booking on it.
+  updatedAt?: number;
+}
+
+// Who made a change, and through which surface.
+export type AuditActor = 'bot' | 'owner' | 'guest';
+export type AuditChannel = 'whatsapp' | 'owner_panel' | 'api';
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+// One append-only change-log line for a reservation.
+export interface AuditEntry {
+  id: string;
+  restaurant_id: string;
+  reservation_id: string;
+  at: number; // epoch ms
+  actor: AuditActor;
+  channel: AuditChannel;
+  action: 'created' | 'updated' | 'status_changed';
+  changes: Record<string, FieldChange>;
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'accepted' | 'expired' | 'cancelled';
+
+export interface WaitlistEntry {
+  id: string;
+  restaurant_id: string;
+  name: string;
+  phone: string;
+  date: string; // YYYY-MM-DD
+  timeFrom: string; // HH:MM, earliest acceptable start
+  timeTo: string; // HH:MM, latest acceptable start
+  partySize: number;
+  notes?: string;
+  status: WaitlistStatus;
+  createdAt: number;
+  // Set when freed capacity is offered to this entry.
+  offeredTime?: string; // HH:MM
+  offeredAt?: number;
+  offerExpiresAt?: number;
 }
 
 export interface TimeSlot {
@@ -19,7 +114,23 @@ export interface TimeSlot {
   available: boolean;
 }
 
-export type AvailabilityReason = 'capacity' | 'max_party' | 'out_of_hours' | 'turn_end' | 'closed' | null;
+export type AvailabilityReason =
+  | 'too_soon'
+  | 'too_far'
+  | 'same_day_cutoff'
+  | 'cancel_cutoff'
+  | 'modify_cutoff'
+  | 'guest_restricted'
+  | 'special_request'
+  | 'capacity'
+  | 'pacing'
+  | 'seating'
+  | 'max_party'
+  | 'out_of_hours'
+  | 'turn_end'
+  | 'closed'
+  | 'closure'
+  | null;
 
 export interface AvailabilityResult {
   status: 'available' | 'not_available';
@@ -31,16 +142,116 @@ export interface AvailabilityResult {
 
 export type SlotRoundingMode = "nearest" | "floor" | "ceil";
 
+export interface DurationRule {
+  maxPartySize: number; // Applies to parties up to this size (inclusive)
+  durationMin: number;
+}
+
+export interface OpeningRange {
+  start: string; // "13:00"
+  end: string;   // "16:00"
+  durationRules?: DurationRule[]; // Per-shift override of CapacityConfig.durationRules
+}
+
+/**
+ * Planned closure over a date range ("vacaciones 1-15 agosto"). With start/end only that
+ * part of each day is closed ("cena del 24", "evento privado 20:00-23:00"), in the same
+ * service-day sense as a shift: "20:00"-"02:00" runs past midnight.
+ */
+export interface Closure {
+  id: string;
+  from: string; // "YYYY-MM-DD"
+  to: string; // "YYYY-MM-DD", inclusive
+  start?: string; // "HH:MM"; both omitted = whole day
+  end?: string;
+  label?: string;
+  source?: string; // Calendar an imported closure came from (its name, else the file name)
+}
+
+/**
+ * Seats or tables held back for a private event or partial buyout on one date, with the
+ * restaurant still open ("cumpleaños, 12 plazas 20:00-22:00", "terraza reservada").
+ * Times are service-day, like a shift's. `seats` comes off totalCapacity for the window;
+ * with table_ids those tables can't be booked either, and `seats` is what they seat.
+ */
+export interface CapacityBlock {
+  id: string;
+  date: string; // "YYYY-MM-DD"
+  start: string; // "HH:MM"
+  end: string;
+  seats: number;
+  table_ids?: string[];
+  zone?: string; // Zone the tables were taken from, for display
+  label?: string;
+}
+
+// Arrival pacing per slot interval (0/undefined = no limit).
+export interface PacingRule {
+  maxCoversPerSlot?: number; // New guests starting in the same slot
+  maxReservationsPerSlot?: number; // New bookings starting in the same slot
+}
+
+// When guests may book, relative to now (0 / empty = no limit).
+export interface BookingRules {
+  minNoticeMin: number; // Minimum minutes between booking and arrival
+  maxHorizonDays: number; // How many days ahead bookings are accepted
+  sameDayCutoff?: string; // "HH:MM": after this time, no more bookings for today
+}
+
+// How close to the start a guest may still cancel or change a booking (0 = any time).
+export interface ChangePolicy {
+  cancelCutoffMin: number;
+  modifyCutoffMin: number;
+  allowLateCancel: boolean; // Accept cancellations inside the cutoff, flagged as late
+}
+
+// What happens to guests with repeated no-shows (threshold 0 = rule off).
+export type GuestRestrictionAction = 'require_confirmation' | 'limit_party' | 'block';
+
+export interface GuestRestrictionRules {
+  noShowThreshold: number; // No-shows within the window that trigger the rule
+  windowDays: number;
+  action: GuestRestrictionAction;
+  maxPartySize: number; // Used by 'limit_party'
+}
+
+export interface TableCombinationRule {
+  autoAdjacent: boolean; // Also combine tables that sit next to each other on the map
+  maxTables: number; // Largest number of tables joined for one party
+}
+
+// Message sent ahead of each booking asking the guest to confirm or cancel.
+export interface ReminderRules {
+  enabled: boolean;
+  hoursBefore: number;
+  // Cancel bookings still unconfirmed this many hours before they start (0 = never).
+  releaseHoursBefore: number;
+}
+
+// Same numbering as Date#getUTCDay(): 0 = Sunday ... 6 = Saturday.
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
 export interface CapacityConfig {
   totalCapacity: number; // Total people
   maxPartySize: number; // Max people per single reservation
-  standardDurationMin: number; // 90 min
+  standardDurationMin: number; // 90 min, used when no duration rule matches
+  durationRules?: DurationRule[];
   bufferMin: number; // 10 min
   slotIntervalMin: number; // 30 min
   slotRounding: SlotRoundingMode;
-  openingHours: {
-    start: string; // "13:00"
-    end: string;   // "16:00"
-  }[];
+  pacing?: PacingRule;
+  bookingRules?: BookingRules;
+  changePolicy?: ChangePolicy;
+  guestRestrictions?: GuestRestrictionRules;
+  tableCombinations?: TableCombinationRule;
+  reminders?: ReminderRules;
+  // Base schedule, used for any weekday without its own entry.
+  openingHours: OpeningRange[];
+  // Per-weekday schedule. An empty list means closed that weekday.
+  weeklyHours?: Partial<Record<Weekday, OpeningRange[]>>;
+  // Date-specific schedule ("YYYY-MM-DD"), wins over weeklyHours. Empty list = closed.
+  dateOverrides?: Record<string, OpeningRange[]>;
   closedDates?: string[]; // "YYYY-MM-DD"
+  closures?: Closure[];
+  blocks?: CapacityBlock[];
 }
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryStore, setStorageBackend } from '../store/storage';
+import { createInMemoryOutbox, InMemoryOutbox } from '../messaging/outbox';
+import { RestaurantConfigRepository } from '../restaurants/configRepository';
+import { updateReservationSettings } from './settings';
+import { addDaysISO, isoDateInZone } from './timezone';
+import { offerFreedCapacity, setWaitlistOutbox, WaitlistRepository } from './waitlist';
+
+const RID = 'resto-test';
+const MIN = 60_000;
+
+describe('waitlist offers', () => {
+  let outbox: InMemoryOutbox;
+  // A few days out so the booking window accepts it whenever the tests run.
+  const date = addDaysISO(isoDateInZone(new Date(), 'Europe/Madrid'), 3) as string;
+  const now = new Date();
+  const later = (minutes: number) => new Date(now.getTime() + minutes * MIN);
+
+  const join = (name: string, phone: string, partySize = 2) =>
+    WaitlistRepository.join(RID, { name, phone, date, timeFrom: '20:00', timeTo: '22:00', partySize });
+
+  beforeEach(() => {
+    setStorageBackend(createMemoryStore());
+    RestaurantConfigRepository.patch(RID, { timezone: 'Europe/Madrid' });
+    updateReservationSettings(RID, { closedDates: [] });
+    outbox = createInMemoryOutbox();
+    setWaitlistOutbox(outbox);
+  });
+
+  it('offers freed covers first come first served and messages the guest', () => {
+    const first = join('Ana', '+34600000001');
+    join('Bea', '+34600000002');
+
+    const offered = offerFreedCapacity(RID, date, 2, now);
+    expect(offered.map((e) => e.id)).toEqual([first.id]);
+    expect(offered[0].offeredTime).toBe('20:00');
+    expect(outbox.messages).toEqual([
+      expect.objectContaining({ restaurant_id: RID, waitlist_entry_id: first.id, phone: '+34600000001', kind: 'waitlist_offer' }),
+    ]);
+    expect(outbox.messages[0].text).toContain('20:00');
+  });
+
+  it('skips parties larger than what was freed', () => {
+    join('Grupo', '+34600000003', 6);
+    const small = join('Ana', '+34600000001');
+    expect(offerFreedCapacity(RID, date, 2, now).map((e) => e.id)).toEqual([small.id]);
+  });
+
+  it('passes an offer nobody took to the next guest when it expires', () => {
+    const first = join('Ana', '+34600000001');
+    const second = join('Bea', '+34600000002');
+    offerFreedCapacity(RID, date, 2, now);
+
+    const entries = WaitlistRepository.listByDate(RID, date, later(31));
+    expect(entries.find((e) => e.id === first.id)?.status).toBe('expired');
+    expect(entries.find((e) => e.id === second.id)?.status).toBe('offered');
+    expect(outbox.messages.map((m) => m.phone)).toEqual(['+34600000001', '+34600000002']);
+  });
+
+  it('expires offers on a sweep even when nobody reads the list', () => {
+    join('Ana', '+34600000001');
+    const second = join('Bea', '+34600000002');
+    offerFreedCapacity(RID, date, 2, now);
+
+    WaitlistRepository.expireStaleOffers(later(31));
+    expect(outbox.messages.map((m) => m.waitlist_entry_id)).toContain(second.id);
+
+    WaitlistRepository.expireStaleOffers(later(62));
+    const statuses = WaitlistRepository.listByDate(RID, date, later(62)).map((e) => e.status);
+    expect(statuses).toEqual(['expired', 'expired']);
+    expect(outbox.messages).toHaveLength(2);
+  });
+
+  it('does not offer a lapsed slot back to the guest who let it expire', () => {
+    const only = join('Ana', '+34600000001');
+    offerFreedCapacity(RID, date, 2, now);
+    WaitlistRepository.expireStaleOffers(later(31));
+    expect(WaitlistRepository.listByDate(RID, date, later(31)).find((e) => e.id === only.id)?.status).toBe('expired');
+    expect(outbox.messages).toHaveLength(1);
+  });
+});
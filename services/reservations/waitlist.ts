@@ -0,0 +1,229 @@
+import { WaitlistEntry, WaitlistStatus } from "./types";
+import { ReservationRepository } from "./repository";
+import { AvailabilityService } from "./availability";
+import { getReservationSettings } from "./settings";
+import { serviceMinutesOf } from "./schedule";
+import { minutesToHHMM } from "./timeSlots";
+import { RestaurantRepository } from "../restaurants/repository";
+import { createStoredOutbox, OutboundMessagePort } from "../messaging/outbox";
+import { storage, watchRemoteChanges } from "../store/storage";
+
+const STORAGE_KEY = "resto_bot_waitlist_v1";
+
+// How long a guest has to take an offered slot before it goes to the next entry.
+const OFFER_TTL_MS = 30 * 60_000;
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+watchRemoteChanges((key) => {
+  if (key === STORAGE_KEY) for (const l of listeners) l();
+});
+
+const generateId = () => Math.random().toString(36).slice(2, 11);
+
+// Where offers go out to guests; the stored outbox unless a test swaps it.
+let offerOutbox: OutboundMessagePort = createStoredOutbox();
+
+export function setWaitlistOutbox(port: OutboundMessagePort): void {
+  offerOutbox = port;
+}
+
+const loadDB = (): WaitlistEntry[] => {
+  const raw = storage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as WaitlistEntry[];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveDB = (data: WaitlistEntry[]) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(data));
+  for (const l of listeners) l();
+};
+
+// Marks stale offers expired in place; returns the ones it expired.
+const expireOffers = (db: WaitlistEntry[], nowMs: number): WaitlistEntry[] => {
+  const expired: WaitlistEntry[] = [];
+  for (const e of db) {
+    if (e.status === "offered" && e.offerExpiresAt && e.offerExpiresAt < nowMs) {
+      e.status = "expired";
+      expired.push(e);
+    }
+  }
+  return expired;
+};
+
+// An offer nobody took frees its covers again for the next guests waiting that date.
+// Call after the expired entries are saved, so they aren't offered to themselves.
+const reofferExpired = (expired: WaitlistEntry[], now: Date): WaitlistEntry[] =>
+  expired.flatMap((e) => offerFreedCapacity(e.restaurant_id, e.date, e.partySize, now));
+
+const loadFresh = (now: Date): WaitlistEntry[] => {
+  const db = loadDB();
+  const expired = expireOffers(db, now.getTime());
+  if (expired.length === 0) return db;
+  saveDB(db);
+  reofferExpired(expired, now);
+  return loadDB();
+};
+
+const byCreatedAt = (a: WaitlistEntry, b: WaitlistEntry) => a.createdAt - b.createdAt;
+
+export const WaitlistRepository = {
+  subscribe: (listener: Listener): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  listByDate: (restaurantId: string, date: string, now: Date = new Date()): WaitlistEntry[] => {
+    return loadFresh(now)
+      .filter((e) => e.restaurant_id === restaurantId && e.date === date)
+      .sort(byCreatedAt);
+  },
+
+  // Open entries (waiting or offered) for a guest.
+  listOpenByPhone: (restaurantId: string, phone: string, now: Date = new Date()): WaitlistEntry[] => {
+    return loadFresh(now)
+      .filter((e) => e.restaurant_id === restaurantId && e.phone === phone)
+      .filter((e) => e.status === "waiting" || e.status === "offered")
+      .sort(byCreatedAt);
+  },
+
+  /**
+   * Adds a guest to the waitlist. A guest already waiting for the same date gets
+   * their entry updated instead of a second one.
+   */
+  join: (
+    restaurantId: string,
+    data: Pick<WaitlistEntry, "name" | "phone" | "date" | "timeFrom" | "timeTo" | "partySize" | "notes">
+  ): WaitlistEntry => {
+    const db = loadDB();
+    const idx = db.findIndex(
+      (e) => e.restaurant_id === restaurantId && e.phone === data.phone && e.date === data.date && e.status === "waiting"
+    );
+    if (idx !== -1) {
+      db[idx] = { ...db[idx], ...data };
+      saveDB(db);
+      return db[idx];
+    }
+
+    const entry: WaitlistEntry = {
+      ...data,
+      id: generateId(),
+      restaurant_id: restaurantId,
+      status: "waiting",
+      createdAt: Date.now(),
+    };
+    db.push(entry);
+    saveDB(db);
+    return entry;
+  },
+
+  setStatus: (restaurantId: string, id: string, status: WaitlistStatus): WaitlistEntry | null => {
+    const db = loadDB();
+    const idx = db.findIndex((e) => e.restaurant_id === restaurantId && e.id === id);
+    if (idx === -1) return null;
+    db[idx] = { ...db[idx], status };
+    saveDB(db);
+    return db[idx];
+  },
+
+  // Expires lapsed offers and passes them on; for a periodic sweep, since reads do it lazily.
+  expireStaleOffers: (now: Date = new Date()): void => {
+    loadFresh(now);
+  },
+
+  // Called when a guest books: their open entry for that date is fulfilled.
+  markAccepted: (restaurantId: string, phone: string, date: string): void => {
+    const db = loadDB();
+    let changed = false;
+    for (const e of db) {
+      if (e.restaurant_id !== restaurantId || e.phone !== phone || e.date !== date) continue;
+      if (e.status !== "waiting" && e.status !== "offered") continue;
+      e.status = "accepted";
+      changed = true;
+    }
+    if (changed) saveDB(db);
+  },
+};
+
+/**
+ * First bookable slot inside an entry's time window at `now`, or null.
+ */
+function findSlotForEntry(entry: WaitlistEntry, now: Date): string | null {
+  const cfg = getReservationSettings(entry.restaurant_id);
+  const from = serviceMinutesOf(cfg, entry.date, entry.timeFrom);
+  const to = serviceMinutesOf(cfg, entry.date, entry.timeTo);
+  if (!Number.isFinite(from) || !Number.isFinite(to)) return null;
+
+  for (let t = from; t <= to; t += cfg.slotIntervalMin) {
+    const hhmm = minutesToHHMM(t);
+    const check = AvailabilityService.check(entry.restaurant_id, entry.date, hhmm, entry.partySize, undefined, now);
+    if (check.status === "available") return hhmm;
+  }
+  return null;
+}
+
+export function offerText(restaurantName: string, e: WaitlistEntry): string {
+  return (
+    `Hola ${e.name}, se ha liberado una mesa en ${restaurantName} el ${e.date} a las ${e.offeredTime} ` +
+    `para ${e.partySize} ${e.partySize === 1 ? "persona" : "personas"}. ` +
+    `Te la guardamos ${Math.round(OFFER_TTL_MS / 60_000)} minutos: responde a este mensaje si la quieres.`
+  );
+}
+
+/**
+ * Offers freed capacity to waiting guests on that date, first come first served, and
+ * messages each of them. At most `freedCovers` covers are offered so one cancellation
+ * doesn't promise the same seats to everybody on the list.
+ */
+export function offerFreedCapacity(restaurantId: string, date: string, freedCovers: number, now: Date = new Date()): WaitlistEntry[] {
+  const nowMs = now.getTime();
+  const db = loadDB();
+  const expired = expireOffers(db, nowMs);
+
+  const waiting = db
+    .filter((e) => e.restaurant_id === restaurantId && e.date === date && e.status === "waiting")
+    .sort(byCreatedAt);
+
+  const offered: WaitlistEntry[] = [];
+  let remaining = freedCovers;
+  for (const e of waiting) {
+    if (remaining <= 0) break;
+    if (e.partySize > remaining) continue;
+    const slot = findSlotForEntry(e, now);
+    if (!slot) continue;
+    e.status = "offered";
+    e.offeredTime = slot;
+    e.offeredAt = nowMs;
+    e.offerExpiresAt = nowMs + OFFER_TTL_MS;
+    remaining -= e.partySize;
+    offered.push(e);
+  }
+
+  saveDB(db);
+
+  const restaurantName = RestaurantRepository.getById(restaurantId)?.name ?? "el restaurante";
+  for (const e of offered) {
+    // The offer stands either way; a failed send leaves it to the bot the next time the guest writes.
+    offerOutbox
+      .send({
+        restaurant_id: restaurantId,
+        waitlist_entry_id: e.id,
+        phone: e.phone,
+        kind: "waitlist_offer",
+        text: offerText(restaurantName, e),
+      })
+      .catch(() => {
+        // ignore
+      });
+  }
+  return [...offered, ...reofferExpired(expired, now)];
+}
+
+ReservationRepository.onCancelled((r) => {
+  offerFreedCapacity(r.restaurant_id, r.date, r.partySize);
+});
@@ -1,12 +1,13 @@
 import { DEFAULT_CONFIG } from "../../constants";
 import { RestaurantConfig } from "../../types";
+import { storage } from "../store/storage";
 
 const STORAGE_KEY = "resto_bot_restaurant_configs_v1";
 
 type ConfigMap = Record<string, RestaurantConfig>;
 
 const loadMap = (): ConfigMap => {
-  const raw = localStorage.getItem(STORAGE_KEY);
+  const raw = storage.getItem(STORAGE_KEY);
   if (!raw) return {};
   try {
     const parsed = JSON.parse(raw) as ConfigMap;
@@ -17,7 +18,7 @@ const loadMap = (): ConfigMap => {
 };
 
 const saveMap = (m: ConfigMap) => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(m));
+  storage.setItem(STORAGE_KEY, JSON.stringify(m));
 };
 
 export const RestaurantConfigRepository = {
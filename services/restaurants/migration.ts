@@ -1,4 +1,5 @@
 import { isUuid, generateUuid } from "./uuid";
+import { storage } from "../store/storage";
 
 const RESTAURANTS_KEY = "resto_bot_restaurants_v1";
 const CONFIGS_KEY = "resto_bot_restaurant_configs_v1";
@@ -14,7 +15,7 @@ const SETTINGS_PREFIX = "resto_bot_settings_v1:";
 type AnyObj = Record<string, any>;
 
 function readJson<T>(key: string, fallback: T): T {
-  const raw = localStorage.getItem(key);
+  const raw = storage.getItem(key);
   if (!raw) return fallback;
   try {
     return JSON.parse(raw) as T;
@@ -24,7 +25,7 @@ function readJson<T>(key: string, fallback: T): T {
 }
 
 function writeJson(key: string, value: unknown) {
-  localStorage.setItem(key, JSON.stringify(value));
+  storage.setItem(key, JSON.stringify(value));
 }
 
 export function migrateRestaurantIdsIfNeeded(): void {
@@ -92,18 +93,18 @@ export function migrateRestaurantIdsIfNeeded(): void {
   // Migrate per-restaurant settings keys (copy old -> new, then remove old).
   for (const [oldId, newId] of Object.entries(idMap)) {
     const oldKey = `${SETTINGS_PREFIX}${oldId}`;
-    const raw = localStorage.getItem(oldKey);
+    const raw = storage.getItem(oldKey);
     if (raw) {
-      localStorage.setItem(`${SETTINGS_PREFIX}${newId}`, raw);
-      localStorage.removeItem(oldKey);
+      storage.setItem(`${SETTINGS_PREFIX}${newId}`, raw);
+      storage.removeItem(oldKey);
     }
   }
 
   // Active/default restaurant pointers.
-  const active = localStorage.getItem(ACTIVE_RESTAURANT_KEY);
-  if (active && idMap[active]) localStorage.setItem(ACTIVE_RESTAURANT_KEY, idMap[active]);
-  const def = localStorage.getItem(DEFAULT_RESTAURANT_ID_KEY);
-  if (def && idMap[def]) localStorage.setItem(DEFAULT_RESTAURANT_ID_KEY, idMap[def]);
+  const active = storage.getItem(ACTIVE_RESTAURANT_KEY);
+  if (active && idMap[active]) storage.setItem(ACTIVE_RESTAURANT_KEY, idMap[active]);
+  const def = storage.getItem(DEFAULT_RESTAURANT_ID_KEY);
+  if (def && idMap[def]) storage.setItem(DEFAULT_RESTAURANT_ID_KEY, idMap[def]);
 
   // Persist restaurants with new UUIDs.
   writeJson(RESTAURANTS_KEY, restaurants);
@@ -2,6 +2,7 @@ import { Restaurant } from "../../types";
 import { migrateRestaurantIdsIfNeeded } from "./migration";
 import { ensureUniqueSlug, isValidSlug, slugify } from "./slug";
 import { generateUuid, isUuid } from "./uuid";
+import { storage } from "../store/storage";
 
 const STORAGE_KEY = "resto_bot_restaurants_v1";
 const ACTIVE_RESTAURANT_KEY = "resto_bot_active_restaurant";
@@ -10,7 +11,7 @@ const DEFAULT_RESTAURANT_ID_KEY = "resto_bot_default_restaurant_id";
 const loadDB = (): Restaurant[] => {
   migrateRestaurantIdsIfNeeded();
 
-  const raw = localStorage.getItem(STORAGE_KEY);
+  const raw = storage.getItem(STORAGE_KEY);
   if (!raw) return [];
   try {
     const parsed = JSON.parse(raw) as Restaurant[];
@@ -21,7 +22,7 @@ const loadDB = (): Restaurant[] => {
 };
 
 const saveDB = (data: Restaurant[]) => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  storage.setItem(STORAGE_KEY, JSON.stringify(data));
 };
 
 function normalizeRestaurants(db: Restaurant[]): Restaurant[] {
@@ -63,14 +64,14 @@ export const RestaurantRepository = {
     // If we normalized, persist.
     if (JSON.stringify(db) !== JSON.stringify(db0)) saveDB(db);
 
-    const defaultId = localStorage.getItem(DEFAULT_RESTAURANT_ID_KEY);
+    const defaultId = storage.getItem(DEFAULT_RESTAURANT_ID_KEY);
     if (defaultId) {
       const found = db.find((r) => r.id === defaultId);
       if (found) return found;
     }
 
     if (db.length > 0) {
-      localStorage.setItem(DEFAULT_RESTAURANT_ID_KEY, db[0].id);
+      storage.setItem(DEFAULT_RESTAURANT_ID_KEY, db[0].id);
       return db[0];
     }
 
@@ -83,11 +84,11 @@ export const RestaurantRepository = {
       created_at: new Date().toISOString(),
     };
     saveDB([r]);
-    localStorage.setItem(DEFAULT_RESTAURANT_ID_KEY, r.id);
+    storage.setItem(DEFAULT_RESTAURANT_ID_KEY, r.id);
 
     // Also set as active restaurant if not set.
-    if (!localStorage.getItem(ACTIVE_RESTAURANT_KEY)) {
-      localStorage.setItem(ACTIVE_RESTAURANT_KEY, r.id);
+    if (!storage.getItem(ACTIVE_RESTAURANT_KEY)) {
+      storage.setItem(ACTIVE_RESTAURANT_KEY, r.id);
     }
 
     return r;
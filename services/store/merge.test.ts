@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { mergeSyncedValue } from './merge';
+
+const KEY = 'resto_bot_reservations';
+const list = (...records: object[]) => JSON.stringify(records);
+
+describe('mergeSyncedValue', () => {
+  it('keeps the copy of each booking written last', () => {
+    // The server released booking a; the browser's copy is older but it edited b since.
+    const server = list({ id: 'a', status: 'cancelled_by_restaurant', updatedAt: 20 }, { id: 'b', notes: '', updatedAt: 10 });
+    const browser = list({ id: 'a', status: 'confirmed', updatedAt: 10 }, { id: 'b', notes: 'terraza', updatedAt: 30 });
+    expect(JSON.parse(mergeSyncedValue(KEY, server, browser)!)).toEqual([
+      { id: 'a', status: 'cancelled_by_restaurant', updatedAt: 20 },
+      { id: 'b', notes: 'terraza', updatedAt: 30 },
+    ]);
+  });
+
+  it('keeps bookings only one side has', () => {
+    const merged = mergeSyncedValue(KEY, list({ id: 'a', updatedAt: 1 }), list({ id: 'b', updatedAt: 2 }));
+    expect(JSON.parse(merged!).map((r: { id: string }) => r.id)).toEqual(['a', 'b']);
+  });
+
+  it('returns the incoming value untouched when nothing changes', () => {
+    const current = list({ id: 'a', updatedAt: 1 });
+    const incoming = list({ id: 'a', updatedAt: 1 }, { id: 'b', updatedAt: 2 });
+    expect(mergeSyncedValue(KEY, current, incoming)).toBe(incoming);
+  });
+
+  it('lets the last write win for other keys', () => {
+    expect(mergeSyncedValue('resto_bot_settings_r1', '{"a":1}', '{"a":2}')).toBe('{"a":2}');
+    expect(mergeSyncedValue(KEY, list({ id: 'a' }), null)).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+// Keys holding a list of records with an `id`, merged record by record. Bookings carry an
+// `updatedAt`; audit entries are never edited, so any copy of one will do.
+const RECORD_LIST_KEYS = new Set(["resto_bot_reservations", "resto_bot_reservation_audit_v1"]);
+
+type StoredRecord = { id?: unknown; updatedAt?: unknown };
+
+const parseList = (value: string): StoredRecord[] | null => {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const writtenAt = (r: StoredRecord): number => (typeof r.updatedAt === "number" ? r.updatedAt : 0);
+
+/**
+ * Value to keep when `incoming` arrives for a key that already holds `current`. Most keys
+ * are one document and the incoming value replaces it. For record lists (bookings) each
+ * record keeps whichever copy was written last and records only one side has are kept, so
+ * a stale copy of the list can't undo what the other side changed in the meantime.
+ */
+export function mergeSyncedValue(key: string, current: string | null, incoming: string | null): string | null {
+  if (!RECORD_LIST_KEYS.has(key) || current === null || incoming === null || current === incoming) return incoming;
+  const mine = parseList(current);
+  const theirs = parseList(incoming);
+  if (!mine || !theirs) return incoming;
+
+  const merged = mine.slice();
+  const indexById = new Map(merged.map((r, i) => [r.id, i]));
+  for (const record of theirs) {
+    const idx = indexById.get(record.id);
+    if (idx === undefined) merged.push(record);
+    else if (writtenAt(record) >= writtenAt(merged[idx])) merged[idx] = record;
+  }
+  const out = JSON.stringify(merged);
+  return out === JSON.stringify(theirs) ? incoming : out;
+}
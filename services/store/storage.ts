@@ -0,0 +1,90 @@
+/**
+ * Key-value storage behind the repositories. The browser keeps its data in localStorage;
+ * the dev server keeps the synced copy in a file and tests use an in-memory store.
+ * Local writes are reported to `onStorageWrite` listeners (to push them elsewhere), and
+ * changes that arrive from elsewhere go through `applyRemoteChange`, which tells the
+ * repositories watching that key so their subscribers refresh.
+ */
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+type WriteListener = (key: string, value: string | null) => void;
+type KeyListener = (key: string) => void;
+
+const writeListeners = new Set<WriteListener>();
+const keyListeners = new Set<KeyListener>();
+
+export function createMemoryStore(initial: Record<string, string> = {}): KeyValueStore {
+  const data = new Map(Object.entries(initial));
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, String(value));
+    },
+    removeItem: (key) => {
+      data.delete(key);
+    },
+    keys: () => Array.from(data.keys()),
+  };
+}
+
+const browserStore = (): KeyValueStore | null => {
+  try {
+    if (typeof localStorage === "undefined" || !localStorage) return null;
+    return {
+      getItem: (key) => localStorage.getItem(key),
+      setItem: (key, value) => localStorage.setItem(key, value),
+      removeItem: (key) => localStorage.removeItem(key),
+      keys: () => Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i)).filter((k): k is string => k !== null),
+    };
+  } catch {
+    return null;
+  }
+};
+
+let backend: KeyValueStore = browserStore() ?? createMemoryStore();
+
+export function setStorageBackend(next: KeyValueStore): void {
+  backend = next;
+}
+
+export const storage: KeyValueStore = {
+  getItem: (key) => backend.getItem(key),
+  setItem: (key, value) => {
+    backend.setItem(key, value);
+    for (const l of writeListeners) l(key, value);
+  },
+  removeItem: (key) => {
+    backend.removeItem(key);
+    for (const l of writeListeners) l(key, null);
+  },
+  keys: () => backend.keys(),
+};
+
+export function onStorageWrite(listener: WriteListener): () => void {
+  writeListeners.add(listener);
+  return () => writeListeners.delete(listener);
+}
+
+// Stores a value written somewhere else without reporting it back as a local write.
+export function applyRemoteChange(key: string, value: string | null): void {
+  if (backend.getItem(key) === value) return;
+  if (value === null) backend.removeItem(key);
+  else backend.setItem(key, value);
+  for (const l of keyListeners) l(key);
+}
+
+// Called with the key of every change applied by `applyRemoteChange`.
+export function watchRemoteChanges(listener: KeyListener): () => void {
+  keyListeners.add(listener);
+  return () => keyListeners.delete(listener);
+}
+
+// The restaurant's data, shared between the owner's browser and the server. Which
+// restaurant a browser tab is looking at, and which of its writes haven't gone up, stay local.
+const LOCAL_KEYS = new Set(["resto_bot_active_restaurant", "resto_bot_unpushed_keys"]);
+export const isSyncedKey = (key: string): boolean => key.startsWith("resto_bot_") && !LOCAL_KEYS.has(key);
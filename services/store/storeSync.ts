@@ -0,0 +1,162 @@
+import { applyRemoteChange, isSyncedKey, onStorageWrite, storage } from "./storage";
+
+// How long local writes are batched before they go up, and how often a failed pull or
+// push (not logged in, server restarting) is tried again.
+const PUSH_DEBOUNCE_MS = 300;
+const RETRY_MS = 15_000;
+
+// Keys written here that haven't reached the server yet, kept across reloads.
+const UNPUSHED_KEY = "resto_bot_unpushed_keys";
+
+type Entries = Record<string, string | null>;
+
+const loadUnpushed = (): string[] => {
+  try {
+    const parsed = JSON.parse(storage.getItem(UNPUSHED_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed.filter((k): k is string => typeof k === "string" && isSyncedKey(k)) : [];
+  } catch {
+    return [];
+  }
+};
+
+async function fetchSnapshot(): Promise<Record<string, string> | null> {
+  try {
+    const res = await fetch(`/api/store/snapshot`, { method: "GET", credentials: "include" });
+    if (!res.ok) return null;
+    const data = (await res.json()) as { entries?: Record<string, string> };
+    return data.entries && typeof data.entries === "object" ? data.entries : null;
+  } catch {
+    return null;
+  }
+}
+
+// Resolves to what the server kept where it differs from what was sent, or null on failure.
+async function pushEntries(entries: Entries): Promise<Entries | null> {
+  try {
+    const res = await fetch(`/api/store/put`, {
+      method: "POST",
+      credentials: "include",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ entries }),
+    });
+    if (!res.ok) return null;
+    const data = (await res.json()) as { merged?: Entries };
+    return data.merged && typeof data.merged === "object" ? data.merged : {};
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keeps this browser's restaurant data in step with the server's copy, which the server's
+ * own jobs (reminders, the calendar feed) read and write. On connect the server's values
+ * win, except for keys written here that haven't gone up yet (also from before a reload);
+ * keys only this browser has are uploaded. After that, local writes are pushed and the
+ * server's changes streamed in. The server merges bookings one by one and sends back what
+ * this copy was missing; other keys are one JSON document each and the last write wins.
+ * Nothing syncs until the owner is logged in; writes made meanwhile wait. Returns a stop function.
+ */
+export function startStoreSync(): () => void {
+  const pending = new Map<string, string | null>();
+  const unpushed = new Set(loadUnpushed());
+  for (const key of unpushed) pending.set(key, storage.getItem(key));
+  let connected = false;
+  let stopped = false;
+  let pushTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let stream: EventSource | null = null;
+
+  const saveUnpushed = () => {
+    if (unpushed.size > 0) storage.setItem(UNPUSHED_KEY, JSON.stringify(Array.from(unpushed)));
+    else storage.removeItem(UNPUSHED_KEY);
+  };
+
+  const flush = async () => {
+    pushTimer = null;
+    if (!connected || pending.size === 0) return;
+    const batch = Object.fromEntries(pending);
+    pending.clear();
+    const merged = await pushEntries(batch);
+    if (merged) {
+      // Keys written again meanwhile go up next; the server merges those too.
+      for (const [key, value] of Object.entries(merged)) {
+        if (isSyncedKey(key) && !pending.has(key)) applyRemoteChange(key, typeof value === "string" ? value : null);
+      }
+      for (const key of Object.keys(batch)) if (!pending.has(key)) unpushed.delete(key);
+      saveUnpushed();
+      return;
+    }
+    // Keep anything not rewritten meanwhile for the next try.
+    for (const [key, value] of Object.entries(batch)) if (!pending.has(key)) pending.set(key, value);
+    retryLater();
+  };
+
+  const schedulePush = () => {
+    if (pushTimer) clearTimeout(pushTimer);
+    pushTimer = setTimeout(() => void flush(), PUSH_DEBOUNCE_MS);
+  };
+
+  const retryLater = () => {
+    if (stopped || retryTimer) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (connected) void flush();
+      else void connect();
+    }, RETRY_MS);
+  };
+
+  const openStream = () => {
+    stream = new EventSource(`/api/store/stream`);
+    stream.addEventListener("change", (ev: MessageEvent) => {
+      try {
+        const { key, value } = JSON.parse(ev.data) as { key?: string; value?: string | null };
+        if (typeof key !== "string" || !isSyncedKey(key) || pending.has(key)) return;
+        applyRemoteChange(key, typeof value === "string" ? value : null);
+      } catch {
+        // ignore
+      }
+    });
+    // Changes made while the stream was down would be missed, so reconnect from a fresh snapshot.
+    stream.onerror = () => {
+      stream?.close();
+      stream = null;
+      connected = false;
+      retryLater();
+    };
+  };
+
+  const connect = async () => {
+    const remote = await fetchSnapshot();
+    if (stopped) return;
+    if (!remote) return retryLater();
+
+    for (const [key, value] of Object.entries(remote)) {
+      if (isSyncedKey(key) && !pending.has(key)) applyRemoteChange(key, value);
+    }
+    for (const key of storage.keys()) {
+      if (isSyncedKey(key) && !(key in remote) && !pending.has(key)) pending.set(key, storage.getItem(key));
+    }
+    connected = true;
+    openStream();
+    void flush();
+  };
+
+  const unsubscribe = onStorageWrite((key, value) => {
+    if (!isSyncedKey(key)) return;
+    pending.set(key, value);
+    if (!unpushed.has(key)) {
+      unpushed.add(key);
+      saveUnpushed();
+    }
+    schedulePush();
+  });
+  void connect();
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+    if (pushTimer) clearTimeout(pushTimer);
+    if (retryTimer) clearTimeout(retryTimer);
+    stream?.close();
+  };
+}
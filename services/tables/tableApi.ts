@@ -36,7 +36,9 @@ export async function createTable(
 export async function patchTable(
   restaurantId: string,
   tableId: string,
-  patch: Partial<Pick<RestaurantTable, "name" | "capacity" | "zone" | "notes" | "status" | "layout_x" | "layout_y" | "kind">>
+  patch: Partial<
+    Pick<RestaurantTable, "name" | "capacity" | "zone" | "notes" | "status" | "layout_x" | "layout_y" | "kind" | "combinable_with" | "attributes">
+  >
 ): Promise<TablesState> {
   const res = await fetch(`/api/tables/patch`, {
     method: "POST",
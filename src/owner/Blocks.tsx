@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { RestaurantTable } from "../../types";
+import { CapacityBlock, Reservation } from "../../services/reservations/types";
+import { getReservationSettings } from "../../services/reservations/settings";
+import { blocksOnDate } from "../../services/reservations/schedule";
+import { addBlock, describeBlock, findBlockConflicts, removeBlock } from "../../services/reservations/blocks";
+import { connectTablesStream, fetchTablesState } from "../../services/tables/tableApi";
+
+interface BlocksProps {
+  restaurantId: string;
+  date: string; // YYYY-MM-DD
+  refreshKey: number;
+}
+
+type HoldMode = "seats" | "tables" | "zone";
+
+const EMPTY_FORM = { label: "", start: "", end: "", seats: 10, zone: "" };
+
+const Blocks: React.FC<BlocksProps> = ({ restaurantId, date, refreshKey }) => {
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [mode, setMode] = useState<HoldMode>("seats");
+  const [picked, setPicked] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Bookings sitting at the tables of the block just added, so the host can move them.
+  const [conflicts, setConflicts] = useState<Reservation[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchTablesState(restaurantId)
+      .then((state) => {
+        if (!cancelled) setTables(state.tables);
+      })
+      .catch(() => {
+        // ignore (not logged in / no server)
+      });
+    const unsub = connectTablesStream(
+      restaurantId,
+      (state) => setTables(state.tables),
+      () => {}
+    );
+    return () => {
+      cancelled = true;
+      unsub();
+    };
+  }, [restaurantId]);
+
+  const blocks = useMemo(() => {
+    void refreshKey;
+    return blocksOnDate(getReservationSettings(restaurantId), date);
+  }, [restaurantId, date, refreshKey]);
+  const zones = useMemo(
+    () => Array.from(new Set(tables.map((t) => t.zone?.trim()).filter((z): z is string => Boolean(z)))).sort(),
+    [tables]
+  );
+  const tableNames = (b: CapacityBlock) =>
+    (b.table_ids ?? []).map((id) => tables.find((t) => t.id === id)?.name ?? id).join(" + ");
+
+  const add = () => {
+    try {
+      setError(null);
+      const block = addBlock(
+        restaurantId,
+        {
+          date,
+          start: form.start,
+          end: form.end,
+          label: form.label,
+          seats: mode === "seats" ? form.seats : undefined,
+          table_ids: mode === "tables" ? picked : undefined,
+          zone: mode === "zone" ? form.zone : undefined,
+        },
+        tables
+      );
+      setForm(EMPTY_FORM);
+      setPicked([]);
+      setConflicts(findBlockConflicts(restaurantId, block));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to add block.");
+    }
+  };
+
+  const togglePicked = (id: string) =>
+    setPicked((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+
+  return (
+    <section className="bg-white border border-slate-200 rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="text-sm font-bold text-slate-900">Bloqueos del día</h4>
+        <p className="text-xs text-slate-500">
+          Plazas, mesas o una zona reservadas para un evento durante unas horas, sin cerrar el local.
+        </p>
+      </div>
+
+      {error ? (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="col-span-2 block text-xs font-semibold text-slate-700">
+          Evento
+          <input
+            value={form.label}
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+            placeholder="Cumpleaños, comida de empresa..."
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="block text-xs font-semibold text-slate-700">
+          Desde
+          <input
+            type="time"
+            value={form.start}
+            onChange={(e) => setForm({ ...form, start: e.target.value })}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="block text-xs font-semibold text-slate-700">
+          Hasta
+          <input
+            type="time"
+            value={form.end}
+            onChange={(e) => setForm({ ...form, end: e.target.value })}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center gap-1 rounded-md border border-slate-300 bg-white p-1 w-fit">
+        {(
+          [
+            ["seats", "Plazas"],
+            ["tables", "Mesas"],
+            ["zone", "Zona"],
+          ] as const
+        ).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setMode(key)}
+            className={`px-2 py-1 rounded text-xs font-semibold ${mode === key ? "bg-slate-900 text-white" : "text-slate-700 hover:bg-slate-100"}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mode === "seats" ? (
+        <label className="block text-xs font-semibold text-slate-700">
+          Plazas retenidas
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={form.seats}
+            onChange={(e) => setForm({ ...form, seats: Number(e.target.value) })}
+            className="mt-1 w-32 border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+      ) : mode === "tables" ? (
+        tables.length === 0 ? (
+          <div className="text-xs text-slate-500 italic">No hay mesas configuradas.</div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {tables.map((t) => (
+              <button
+                key={t.id}
+                onClick={() => togglePicked(t.id)}
+                className={`px-2 py-1 rounded-md text-xs font-semibold border ${
+                  picked.includes(t.id) ? "border-slate-900 bg-slate-900 text-white" : "border-slate-300 hover:bg-slate-100"
+                }`}
+              >
+                {t.name} ({t.kind === "stool" ? 1 : t.capacity}p)
+              </button>
+            ))}
+          </div>
+        )
+      ) : (
+        <select
+          value={form.zone}
+          onChange={(e) => setForm({ ...form, zone: e.target.value })}
+          className="border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
+        >
+          <option value="">Elige una zona</option>
+          {zones.map((z) => (
+            <option key={z} value={z}>
+              {z}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <button
+        onClick={add}
+        className="px-3 py-2 rounded-md text-sm font-semibold border border-slate-300 hover:bg-slate-100"
+      >
+        Añadir bloqueo
+      </button>
+
+      {conflicts && conflicts.length > 0 ? (
+        <div className="border border-amber-200 bg-amber-50 rounded-md p-3 space-y-1">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-bold text-amber-900">
+              {conflicts.length} reserva{conflicts.length === 1 ? " está" : "s están"} en mesas bloqueadas: muévelas de mesa
+            </div>
+            <button onClick={() => setConflicts(null)} className="text-xs font-semibold text-amber-800 hover:text-amber-950">
+              Cerrar
+            </button>
+          </div>
+          {conflicts.map((r) => (
+            <div key={r.id} className="text-sm bg-white border border-amber-100 rounded px-2 py-1.5 truncate">
+              <span className="font-mono text-xs text-slate-500">{r.code}</span> {r.time} · {r.name} · {r.partySize}p
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {blocks.length === 0 ? (
+        <div className="text-sm text-slate-500 italic border border-dashed border-slate-300 rounded-md p-4">
+          No hay bloqueos para esta fecha.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {blocks.map((b) => (
+            <div key={b.id} className="flex items-center justify-between gap-2 border border-rose-200 bg-rose-50 rounded-md px-3 py-2">
+              <div className="min-w-0 text-sm text-rose-900">
+                {describeBlock(b)}
+                {b.table_ids?.length ? <div className="text-xs text-rose-700 truncate">Mesas: {tableNames(b)}</div> : null}
+              </div>
+              <button
+                onClick={() => {
+                  removeBlock(restaurantId, b.id);
+                  setConflicts(null);
+                }}
+                className="px-2 py-1 rounded-md text-xs font-semibold border border-rose-200 bg-white hover:bg-rose-100"
+              >
+                Quitar
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default Blocks;
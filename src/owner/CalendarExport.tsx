@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { addDaysISO, getRestaurantTimeZone, isoDateInZone } from "../../services/reservations/timezone";
+import { exportReservationsIcs, FEED_FUTURE_DAYS, FEED_PAST_DAYS } from "../../services/calendar/reservationFeed";
+import { CalendarFeedInfo, fetchCalendarFeedInfo, fetchTableNames, rotateCalendarFeedToken } from "../../services/calendar/feedApi";
+
+interface CalendarExportProps {
+  restaurantId: string;
+  refreshKey: number;
+}
+
+const CalendarExport: React.FC<CalendarExportProps> = ({ restaurantId, refreshKey }) => {
+  const today = isoDateInZone(new Date(), getRestaurantTimeZone(restaurantId));
+  const [from, setFrom] = useState(today);
+  const [to, setTo] = useState(() => addDaysISO(today, 6) ?? today);
+  const [feed, setFeed] = useState<CalendarFeedInfo | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCalendarFeedInfo(restaurantId)
+      .then((info) => {
+        if (!cancelled) setFeed(info);
+      })
+      .catch(() => {
+        // ignore (not logged in / no server)
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantId, refreshKey]);
+
+  const download = async () => {
+    try {
+      setError(null);
+      if (!from || !to || to < from) throw new Error("Invalid date range.");
+      const ics = exportReservationsIcs(restaurantId, from, to, await fetchTableNames(restaurantId));
+      const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = from === to ? `reservas-${from}.ics` : `reservas-${from}_${to}.ics`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to export calendar.");
+    }
+  };
+
+  const rotate = async () => {
+    if (!window.confirm("El enlace actual dejará de funcionar en los calendarios suscritos. ¿Crear uno nuevo?")) return;
+    try {
+      setError(null);
+      setFeed(await rotateCalendarFeedToken(restaurantId));
+      setCopied(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to renew calendar link.");
+    }
+  };
+
+  const copy = async () => {
+    if (!feed?.url) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <section className="bg-white border border-slate-200 rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="text-sm font-bold text-slate-900">Calendario</h4>
+        <p className="text-xs text-slate-500">
+          Lleva las reservas al calendario del móvil: descarga un rango de fechas o suscríbete al enlace.
+        </p>
+      </div>
+
+      {error ? (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block text-xs font-semibold text-slate-700">
+          Desde
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="block text-xs font-semibold text-slate-700">
+          Hasta (incluido)
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+      </div>
+      <button
+        onClick={() => void download()}
+        className="px-3 py-2 rounded-md text-sm font-semibold border border-slate-300 hover:bg-slate-100"
+      >
+        Descargar .ics
+      </button>
+
+      <div className="border-t border-slate-100 pt-3 space-y-2">
+        <div className="text-xs font-semibold text-slate-700">Suscripción</div>
+        {feed && !feed.url ? (
+          <p className="text-xs text-slate-500 italic">
+            La suscripción está desactivada: define OWNER_AUTH_SECRET en .env.local y reinicia el servidor.
+          </p>
+        ) : feed?.url ? (
+          <>
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={feed.url}
+                onFocus={(e) => e.target.select()}
+                className="min-w-0 flex-1 border border-slate-300 rounded-md px-2 py-1.5 text-xs font-mono bg-slate-50"
+              />
+              <button
+                onClick={() => void copy()}
+                className="px-2 py-1.5 rounded-md text-xs font-semibold border border-slate-300 hover:bg-slate-100"
+              >
+                {copied ? "Copiado" : "Copiar"}
+              </button>
+              <a
+                href={feed.url.replace(/^https?:/, "webcal:")}
+                className="px-2 py-1.5 rounded-md text-xs font-semibold border border-slate-300 hover:bg-slate-100"
+              >
+                Suscribirse
+              </a>
+            </div>
+            <p className="text-xs text-slate-500">
+              Incluye {FEED_PAST_DAYS} días atrás y {FEED_FUTURE_DAYS} adelante, al día cada vez que el calendario lo
+              consulta. Quien tenga el enlace ve las reservas: compártelo solo con el equipo y cámbialo si se filtra.
+            </p>
+            <button
+              onClick={() => void rotate()}
+              className="px-3 py-1.5 rounded-md text-xs font-semibold border border-slate-300 hover:bg-slate-100"
+            >
+              Cambiar enlace
+            </button>
+          </>
+        ) : (
+          <p className="text-xs text-slate-500 italic">Inicia sesión en el panel para obtener el enlace de suscripción.</p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default CalendarExport;
@@ -0,0 +1,330 @@
+import React, { useMemo, useState } from "react";
+import { Closure, Reservation } from "../../services/reservations/types";
+import { getReservationSettings } from "../../services/reservations/settings";
+import { ReservationRepository } from "../../services/reservations/repository";
+import { isActiveStatus, STATUS_LABELS } from "../../services/reservations/lifecycle";
+import {
+  addClosure,
+  cancelForClosure,
+  closureNotice,
+  describeClosure,
+  findClosureConflicts,
+  importIcsClosures,
+  isImportedClosure,
+  removeClosure,
+  whatsappLink,
+} from "../../services/reservations/closures";
+import { RestaurantRepository } from "../../services/restaurants/repository";
+
+interface ClosuresProps {
+  restaurantId: string;
+  refreshKey: number;
+}
+
+const OWNER_SOURCE = { actor: "owner", channel: "owner_panel" } as const;
+
+const EMPTY_FORM = { label: "", from: "", to: "", start: "", end: "" };
+
+interface AffectedBooking {
+  reservation: Reservation;
+  closure: Closure;
+}
+
+const Closures: React.FC<ClosuresProps> = ({ restaurantId, refreshKey }) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [partial, setPartial] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bookings hit by the closures just added or opened, as they were at that moment
+  // (cancelling them must not make them disappear before the guests are told).
+  const [review, setReview] = useState<{ closureIds: string[]; affected: AffectedBooking[] } | null>(null);
+  const [importNote, setImportNote] = useState<string | null>(null);
+  const [notified, setNotified] = useState<Set<string>>(new Set());
+
+  const closures = useMemo(() => {
+    void refreshKey;
+    return (getReservationSettings(restaurantId).closures ?? []).slice().sort((a, b) => a.from.localeCompare(b.from));
+  }, [restaurantId, refreshKey]);
+  const restaurantName = RestaurantRepository.getById(restaurantId)?.name ?? "el restaurante";
+
+  const openReview = (list: Closure[]) => {
+    const affected: AffectedBooking[] = [];
+    const seen = new Set<string>();
+    for (const closure of list) {
+      for (const reservation of findClosureConflicts(restaurantId, closure)) {
+        if (seen.has(reservation.id)) continue;
+        seen.add(reservation.id);
+        affected.push({ reservation, closure });
+      }
+    }
+    setReview({ closureIds: list.map((c) => c.id), affected });
+    setNotified(new Set());
+  };
+
+  const add = () => {
+    try {
+      setError(null);
+      const closure = addClosure(restaurantId, {
+        from: form.from,
+        to: form.to || form.from,
+        start: partial ? form.start : undefined,
+        end: partial ? form.end : undefined,
+        label: form.label,
+      });
+      setForm(EMPTY_FORM);
+      setImportNote(null);
+      openReview([closure]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to add closure.");
+    }
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setError(null);
+      const result = importIcsClosures(restaurantId, await file.text(), file.name);
+      setImportNote(
+        `${file.name}: ${result.added.length} nuevos, ${result.updated} actualizados, ${result.removed} eliminados.`
+      );
+      openReview(result.added);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to import calendar.");
+    }
+  };
+
+  const remove = (id: string) => {
+    removeClosure(restaurantId, id);
+    if (review?.closureIds.includes(id)) setReview(null);
+  };
+
+  // Current state of a listed booking (it may have been cancelled meanwhile).
+  const current = (r: Reservation): Reservation => ReservationRepository.getById(restaurantId, r.id) ?? r;
+
+  const linkFor = ({ reservation, closure }: AffectedBooking): string | null =>
+    whatsappLink(reservation.phone, closureNotice(restaurantName, reservation, closure));
+
+  const pending = review ? review.affected.filter((a) => !notified.has(a.reservation.id) && linkFor(a)) : [];
+
+  const notify = (a: AffectedBooking) => {
+    const link = linkFor(a);
+    if (!link) return;
+    window.open(link, "_blank", "noopener");
+    setNotified((prev) => new Set(prev).add(a.reservation.id));
+  };
+
+  const cancelAll = () => {
+    if (!review) return;
+    const active = review.affected.map((a) => current(a.reservation)).filter((r) => isActiveStatus(r.status));
+    if (active.length === 0) return;
+    if (!window.confirm(`¿Cancelar ${active.length} reserva${active.length === 1 ? "" : "s"}?`)) return;
+    try {
+      setError(null);
+      cancelForClosure(restaurantId, active, OWNER_SOURCE);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to cancel reservations.");
+    }
+  };
+
+  return (
+    <section className="bg-white border border-slate-200 rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="text-sm font-bold text-slate-900">Cierres</h4>
+        <p className="text-xs text-slate-500">
+          Vacaciones, eventos privados o un turno cerrado. Al añadir uno verás las reservas que ya caen dentro.
+        </p>
+      </div>
+
+      {error ? (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="col-span-2 block text-xs font-semibold text-slate-700">
+          Motivo
+          <input
+            value={form.label}
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+            placeholder="Vacaciones, evento privado..."
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="block text-xs font-semibold text-slate-700">
+          Desde
+          <input
+            type="date"
+            value={form.from}
+            onChange={(e) => setForm({ ...form, from: e.target.value })}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="block text-xs font-semibold text-slate-700">
+          Hasta (incluido)
+          <input
+            type="date"
+            value={form.to}
+            min={form.from || undefined}
+            onChange={(e) => setForm({ ...form, to: e.target.value })}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="col-span-2 flex items-center gap-2 text-xs text-slate-700">
+          <input type="checkbox" checked={partial} onChange={(e) => setPartial(e.target.checked)} />
+          Solo unas horas de cada día
+        </label>
+        {partial ? (
+          <>
+            <label className="block text-xs font-semibold text-slate-700">
+              Cerrado desde
+              <input
+                type="time"
+                value={form.start}
+                onChange={(e) => setForm({ ...form, start: e.target.value })}
+                className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+              />
+            </label>
+            <label className="block text-xs font-semibold text-slate-700">
+              Hasta
+              <input
+                type="time"
+                value={form.end}
+                onChange={(e) => setForm({ ...form, end: e.target.value })}
+                className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+              />
+            </label>
+          </>
+        ) : null}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={add}
+          className="px-3 py-2 rounded-md text-sm font-semibold border border-slate-300 hover:bg-slate-100"
+        >
+          Añadir cierre
+        </button>
+        <label
+          className="px-3 py-2 rounded-md text-sm font-semibold border border-slate-300 hover:bg-slate-100 cursor-pointer"
+          title="Festivos oficiales o el calendario del restaurante. Volver a importar el mismo archivo actualiza los cierres."
+        >
+          Importar calendario (.ics)
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={(e) => {
+              void importFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      {importNote ? <div className="text-xs text-slate-600">{importNote}</div> : null}
+
+      {closures.length === 0 ? (
+        <div className="text-sm text-slate-500 italic border border-dashed border-slate-300 rounded-md p-4">
+          No hay cierres programados.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {closures.map((c) => (
+            <div key={c.id} className="flex items-center justify-between gap-2 border border-slate-200 rounded-md px-3 py-2">
+              <div className="text-sm text-slate-800">
+                {describeClosure(c)}
+                {isImportedClosure(c) ? (
+                  <span title={c.source} className="ml-2 text-[10px] font-semibold text-slate-500 uppercase">
+                    .ics
+                  </span>
+                ) : null}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => {
+                    setImportNote(null);
+                    openReview([c]);
+                  }}
+                  className="px-2 py-1 rounded-md text-xs font-semibold border border-slate-300 hover:bg-slate-100"
+                >
+                  Reservas afectadas
+                </button>
+                <button
+                  onClick={() => remove(c.id)}
+                  className="px-2 py-1 rounded-md text-xs font-semibold border border-slate-300 hover:bg-slate-100"
+                >
+                  Quitar
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {review ? (
+        <div className="border border-amber-200 bg-amber-50 rounded-md p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-bold text-amber-900">
+              {review.affected.length === 0
+                ? "Ninguna reserva activa coincide con estos cierres."
+                : `${review.affected.length} reserva${review.affected.length === 1 ? " coincide" : "s coinciden"} con el cierre`}
+            </div>
+            <button onClick={() => setReview(null)} className="text-xs font-semibold text-amber-800 hover:text-amber-950">
+              Cerrar
+            </button>
+          </div>
+
+          {review.affected.length > 0 ? (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => pending[0] && notify(pending[0])}
+                  disabled={pending.length === 0}
+                  className="px-3 py-1.5 rounded-md text-xs font-semibold bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                  title="Abre WhatsApp con el aviso para el siguiente cliente"
+                >
+                  {pending.length > 0 ? `Avisar al siguiente (${pending.length} pendientes)` : "Todos avisados"}
+                </button>
+                <button
+                  onClick={cancelAll}
+                  className="px-3 py-1.5 rounded-md text-xs font-semibold bg-amber-600 text-white hover:bg-amber-700"
+                >
+                  Cancelar todas
+                </button>
+              </div>
+
+              <div className="space-y-1">
+                {review.affected.map((a) => {
+                  const r = a.reservation;
+                  const latest = current(r);
+                  const link = linkFor(a);
+                  return (
+                    <div key={r.id} className="flex items-center justify-between gap-2 text-sm bg-white border border-amber-100 rounded px-2 py-1.5">
+                      <div className="min-w-0 truncate">
+                        <span className="font-mono text-xs text-slate-500">{r.code}</span> {r.date} {r.time} · {r.name} · {r.partySize}p
+                        <span className="ml-2 text-xs text-slate-500">{STATUS_LABELS[latest.status]}</span>
+                      </div>
+                      {link ? (
+                        <a
+                          href={link}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={() => setNotified((prev) => new Set(prev).add(r.id))}
+                          className={`text-xs font-semibold whitespace-nowrap ${notified.has(r.id) ? "text-slate-400" : "text-green-700 hover:underline"}`}
+                        >
+                          {notified.has(r.id) ? "Avisado" : "WhatsApp"}
+                        </a>
+                      ) : (
+                        <span className="text-xs text-slate-400 whitespace-nowrap">Sin teléfono</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+    </section>
+  );
+};
+
+export default Closures;
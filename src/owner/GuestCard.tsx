@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from "react";
+import { GuestRepository } from "../../services/guests/repository";
+import { GuestSummary } from "../../types";
+
+interface GuestCardProps {
+  restaurantId: string;
+  phone: string;
+  refreshKey: number;
+  // Already computed by a list of guests; without it the card looks the guest up.
+  summary?: GuestSummary;
+}
+
+const splitList = (value: string): string[] =>
+  value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+const GuestCard: React.FC<GuestCardProps> = ({ restaurantId, phone, refreshKey, summary }) => {
+  const guest = useMemo(() => {
+    void refreshKey;
+    return summary ?? GuestRepository.getSummary(restaurantId, phone);
+  }, [restaurantId, phone, refreshKey, summary]);
+
+  const [editing, setEditing] = useState(false);
+  const [allergies, setAllergies] = useState("");
+  const [preferences, setPreferences] = useState("");
+  const [tags, setTags] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const startEdit = () => {
+    setAllergies(guest.allergies.join(", "));
+    setPreferences(guest.preferences ?? "");
+    setTags(guest.tags.join(", "));
+    setError(null);
+    setEditing(true);
+  };
+
+  const save = () => {
+    try {
+      GuestRepository.upsert(restaurantId, phone, {
+        allergies: splitList(allergies),
+        preferences,
+        tags: splitList(tags),
+      });
+      setEditing(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save guest.");
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-1.5 text-[11px]">
+        {guest.tags.map((t) => (
+          <span
+            key={t}
+            className={`px-2 py-0.5 rounded-full border ${
+              t.toLowerCase() === "vip" ? "border-amber-300 bg-amber-50 text-amber-800 font-semibold" : "border-gray-200 bg-gray-50 text-gray-700"
+            }`}
+          >
+            {t}
+          </span>
+        ))}
+        <span className="text-gray-600">
+          {guest.visits > 0 ? `${guest.visits} visita${guest.visits === 1 ? "" : "s"}` : "Primera visita"}
+          {guest.lastVisit ? ` · última ${guest.lastVisit}` : ""}
+        </span>
+        {guest.noShows > 0 ? <span className="font-semibold text-red-700">No vino {guest.noShows}x</span> : null}
+        {guest.lateCancellations > 0 ? (
+          <span className="font-semibold text-amber-700">Canc. tardías {guest.lateCancellations}</span>
+        ) : null}
+        {!editing ? (
+          <button onClick={startEdit} className="text-gray-600 hover:text-gray-900 underline font-semibold">
+            Ficha
+          </button>
+        ) : null}
+      </div>
+      {guest.allergies.length > 0 ? (
+        <div className="text-[11px] font-semibold text-red-700">Alergias: {guest.allergies.join(", ")}</div>
+      ) : null}
+      {guest.preferences ? <div className="text-[11px] text-gray-600">Prefiere: {guest.preferences}</div> : null}
+
+      {editing ? (
+        <div className="mt-2 space-y-2 border border-gray-200 rounded-md p-2 bg-gray-50">
+          {error ? <div className="text-xs text-red-700">{error}</div> : null}
+          <label className="block text-[11px] font-semibold text-gray-700">
+            Alergias (separadas por comas)
+            <input
+              value={allergies}
+              onChange={(e) => setAllergies(e.target.value)}
+              className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1 text-xs font-normal"
+              placeholder="frutos secos, gluten"
+            />
+          </label>
+          <label className="block text-[11px] font-semibold text-gray-700">
+            Preferencias
+            <input
+              value={preferences}
+              onChange={(e) => setPreferences(e.target.value)}
+              className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1 text-xs font-normal"
+              placeholder="mesa tranquila, trona"
+            />
+          </label>
+          <label className="block text-[11px] font-semibold text-gray-700">
+            Etiquetas
+            <input
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1 text-xs font-normal"
+              placeholder="VIP, habitual"
+            />
+          </label>
+          <div className="flex gap-2">
+            <button onClick={save} className="px-3 py-1 rounded-md text-xs font-semibold bg-gray-900 text-white">
+              Guardar
+            </button>
+            <button onClick={() => setEditing(false)} className="px-3 py-1 rounded-md text-xs font-semibold border border-gray-200">
+              Cancelar
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default GuestCard;
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from "react";
+import { GuestRepository } from "../../services/guests/repository";
+import { liftGuestRestriction, listRestrictedGuests } from "../../services/guests/restrictions";
+import { GuestRestrictionAction } from "../../services/reservations/types";
+import { getReservationSettings } from "../../services/reservations/settings";
+import { formatTimeInZone, getRestaurantTimeZone, isoDateInZone } from "../../services/reservations/timezone";
+import GuestCard from "./GuestCard";
+
+interface GuestsProps {
+  restaurantId: string;
+  refreshKey: number;
+}
+
+const ACTION_LABEL: Record<GuestRestrictionAction, string> = {
+  require_confirmation: "Confirmación manual",
+  limit_party: "Grupo limitado",
+  block: "Bloqueado",
+};
+
+const Guests: React.FC<GuestsProps> = ({ restaurantId, refreshKey }) => {
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const cfg = useMemo(() => getReservationSettings(restaurantId), [restaurantId, refreshKey]);
+  const timeZone = useMemo(() => getRestaurantTimeZone(restaurantId), [restaurantId, refreshKey]);
+  const restricted = useMemo(() => {
+    void refreshKey;
+    return listRestrictedGuests(cfg, restaurantId);
+  }, [cfg, restaurantId, refreshKey]);
+  const guests = useMemo(() => {
+    void refreshKey;
+    return GuestRepository.list(restaurantId);
+  }, [restaurantId, refreshKey]);
+
+  const q = query.trim().toLowerCase();
+  const filtered = q
+    ? guests.filter((g) => g.phone.includes(q) || (g.name ?? "").toLowerCase().includes(q) || g.tags.some((t) => t.toLowerCase().includes(q)))
+    : guests;
+
+  const lift = (phone: string) => {
+    try {
+      setError(null);
+      liftGuestRestriction(restaurantId, phone);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to lift restriction.");
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-900">Clientes</h3>
+        <div className="text-xs text-slate-500">{guests.length} clientes</div>
+      </div>
+
+      {error ? (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      ) : null}
+
+      <section className="bg-white border border-slate-200 rounded-lg p-4 space-y-3">
+        <div>
+          <h4 className="text-sm font-bold text-slate-900">Restricciones por no presentarse</h4>
+          <p className="text-xs text-slate-500">
+            {cfg.guestRestrictions?.noShowThreshold
+              ? `${cfg.guestRestrictions.noShowThreshold} ausencias en ${cfg.guestRestrictions.windowDays} días → ${ACTION_LABEL[cfg.guestRestrictions.action]}.`
+              : "Regla desactivada (configúrala en Ajustes)."}
+          </p>
+        </div>
+        {restricted.length === 0 ? (
+          <div className="text-sm text-slate-500 italic">Ningún cliente restringido.</div>
+        ) : (
+          <div className="space-y-2">
+            {restricted.map((g) => (
+              <div key={g.phone} className="flex items-center justify-between gap-3 border border-red-100 bg-red-50/40 rounded-md p-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-slate-900 truncate">
+                    {g.name ?? "Sin nombre"} <span className="text-xs font-normal text-slate-500">· {g.phone}</span>
+                  </div>
+                  <div className="text-xs text-slate-600">
+                    {g.noShows} ausencias · última {isoDateInZone(new Date(g.lastNoShowAt), timeZone)}{" "}
+                    {formatTimeInZone(g.lastNoShowAt, timeZone)} ·{" "}
+                    <span className="font-semibold text-red-700">{ACTION_LABEL[g.action]}</span>
+                  </div>
+                </div>
+                <button
+                  onClick={() => lift(g.phone)}
+                  className="px-3 py-2 rounded-md text-sm font-semibold border border-slate-300 bg-white hover:bg-slate-100 whitespace-nowrap"
+                >
+                  Levantar
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="bg-white border border-slate-200 rounded-lg p-4 space-y-3">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Buscar por nombre, teléfono o etiqueta"
+          className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+        />
+        {filtered.length === 0 ? (
+          <div className="text-sm text-slate-500 italic">No hay clientes.</div>
+        ) : (
+          <div className="space-y-2">
+            {filtered.map((g) => (
+              <div key={g.phone} className="border border-slate-200 rounded-md p-3">
+                <div className="text-sm font-semibold text-slate-900">
+                  {g.name ?? "Sin nombre"} <span className="text-xs font-normal text-slate-500">· {g.phone}</span>
+                </div>
+                <div className="mt-1">
+                  <GuestCard restaurantId={restaurantId} phone={g.phone} refreshKey={refreshKey} summary={g} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default Guests;
@@ -1,5 +1,6 @@
 import React, { useMemo, useState } from "react";
 import { MenuRepository } from "../../services/menu/repository";
+import { ALLERGEN_OPTIONS } from "../../services/menu/allergens";
 import { MenuCategory, MenuItem } from "../../types";
 
 interface MenuManagerProps {
@@ -22,23 +23,6 @@ type ImportMenuJson = {
   }[];
 };
 
-const ALLERGEN_OPTIONS = [
-  "gluten",
-  "lactosa",
-  "huevo",
-  "frutos secos",
-  "cacahuete",
-  "soja",
-  "pescado",
-  "marisco",
-  "mostaza",
-  "sesamo",
-  "apio",
-  "sulfitos",
-  "altramuz",
-  "moluscos",
-] as const;
-
 function parseAllergenList(raw: string): string[] {
   return raw
     .split(/[|;,]/)
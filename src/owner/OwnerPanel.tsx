@@ -1,18 +1,27 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useState } from "react";
 import Restaurants from "./Restaurants";
 import ReservationsToday from "./ReservationsToday";
 import RestaurantSettings from "./RestaurantSettings";
 import MenuManager from "./MenuManager";
 import TablesLive from "./TablesLive";
+import Blocks from "./Blocks";
+import Waitlist from "./Waitlist";
+import Guests from "./Guests";
+import ReservationForm from "./ReservationForm";
+import CalendarExport from "./CalendarExport";
 import { ReservationRepository } from "../../services/reservations/repository";
+import { WaitlistRepository } from "../../services/reservations/waitlist";
+import { GuestRepository } from "../../services/guests/repository";
+import { isActiveStatus, isCancelledStatus } from "../../services/reservations/lifecycle";
+import { addDaysISO, getRestaurantTimeZone, isoDateInZone } from "../../services/reservations/timezone";
 import { subscribeReservationSettings } from "../../services/reservations/settings";
 import { RestaurantRepository } from "../../services/restaurants/repository";
 
-type Tab = "restaurants" | "today" | "tables" | "settings" | "menu";
+type Tab = "restaurants" | "today" | "tables" | "guests" | "settings" | "menu";
 
-function toISODate(d: Date): string {
-  const local = new Date(d.getTime() - d.getTimezoneOffset() * 60_000);
-  return local.toISOString().slice(0, 10);
+// The restaurant's calendar day, wherever the panel is opened from.
+function todayFor(restaurantId: string): string {
+  return isoDateInZone(new Date(), getRestaurantTimeZone(restaurantId));
 }
 
 interface OwnerPanelProps {
@@ -33,22 +42,22 @@ const OwnerPanel: React.FC<OwnerPanelProps> = ({
   onLogout
 }) => {
   const [tab, setTab] = useState<Tab>("restaurants");
-  const [date, setDate] = useState<string>(() => toISODate(new Date()));
+  const [date, setDate] = useState<string>(() => todayFor(activeRestaurantId));
   const [tick, setTick] = useState(0);
-  const today = toISODate(new Date());
-
-  const tomorrow = useMemo(() => {
-    const d = new Date();
-    d.setDate(d.getDate() + 1);
-    return toISODate(d);
-  }, []);
+  const [creating, setCreating] = useState(false);
+  const today = todayFor(activeRestaurantId);
+  const tomorrow = addDaysISO(today, 1) ?? today;
 
   useEffect(() => {
     if (!isOpen) return;
     const unsubRepo = ReservationRepository.subscribe(() => setTick((t) => t + 1));
+    const unsubWaitlist = WaitlistRepository.subscribe(() => setTick((t) => t + 1));
+    const unsubGuests = GuestRepository.subscribe(() => setTick((t) => t + 1));
     const unsubSettings = subscribeReservationSettings(activeRestaurantId, () => setTick((t) => t + 1));
     return () => {
       unsubRepo();
+      unsubWaitlist();
+      unsubGuests();
       unsubSettings();
     };
   }, [isOpen, activeRestaurantId]);
@@ -59,8 +68,8 @@ const OwnerPanel: React.FC<OwnerPanelProps> = ({
   const allRestaurants = RestaurantRepository.listRestaurants();
   const activeRestaurants = allRestaurants.filter((r) => r.status === "active").length;
   const todayReservations = ReservationRepository.getByDateAll(activeRestaurantId, today);
-  const todayActiveCount = todayReservations.filter((r) => r.status === "active").length;
-  const todayCancelledCount = todayReservations.filter((r) => r.status === "cancelled").length;
+  const todayActiveCount = todayReservations.filter((r) => isActiveStatus(r.status)).length;
+  const todayCancelledCount = todayReservations.filter((r) => isCancelledStatus(r.status)).length;
 
   return (
     <div
@@ -154,6 +163,14 @@ const OwnerPanel: React.FC<OwnerPanelProps> = ({
           >
             Mesas
           </button>
+          <button
+            onClick={() => setTab("guests")}
+            className={`px-3 py-2 rounded-md text-sm font-semibold border whitespace-nowrap ${
+              tab === "guests" ? "bg-slate-900 text-white border-slate-900" : "bg-white text-slate-800 border-slate-300 hover:bg-slate-100"
+            }`}
+          >
+            Clientes
+          </button>
           <button
             onClick={() => setTab("settings")}
             className={`px-3 py-2 rounded-md text-sm font-semibold border whitespace-nowrap ${
@@ -184,7 +201,7 @@ const OwnerPanel: React.FC<OwnerPanelProps> = ({
                 className="ml-auto border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
               />
               <button
-                onClick={() => setDate(toISODate(new Date()))}
+                onClick={() => setDate(todayFor(activeRestaurantId))}
                 className="px-3 py-2 rounded-md text-sm border border-slate-300 hover:bg-slate-100"
               >
                 Hoy
@@ -195,11 +212,25 @@ const OwnerPanel: React.FC<OwnerPanelProps> = ({
               >
                 Mañana
               </button>
+              <button
+                onClick={() => setCreating(!creating)}
+                className="px-3 py-2 rounded-md text-sm font-semibold bg-slate-900 text-white hover:bg-slate-800"
+              >
+                Nueva
+              </button>
             </div>
+            {creating ? (
+              <ReservationForm restaurantId={activeRestaurantId} date={date} onDone={() => setCreating(false)} />
+            ) : null}
             <ReservationsToday restaurantId={activeRestaurantId} date={date} refreshKey={tick} />
+            <Blocks restaurantId={activeRestaurantId} date={date} refreshKey={tick} />
+            <Waitlist restaurantId={activeRestaurantId} date={date} refreshKey={tick} />
+            <CalendarExport restaurantId={activeRestaurantId} refreshKey={tick} />
           </>
         ) : tab === "tables" ? (
-          <TablesLive restaurantId={activeRestaurantId} />
+          <TablesLive restaurantId={activeRestaurantId} refreshKey={tick} />
+        ) : tab === "guests" ? (
+          <Guests restaurantId={activeRestaurantId} refreshKey={tick} />
         ) : tab === "settings" ? (
           <RestaurantSettings restaurantId={activeRestaurantId} refreshKey={tick} />
         ) : tab === "menu" ? (
@@ -0,0 +1,225 @@
+import React, { useState } from "react";
+import { ReservationEngine, EngineResponse } from "../../services/reservations/engine";
+import { ReservationRepository } from "../../services/reservations/repository";
+import { AuditLog } from "../../services/reservations/audit";
+import { AvailabilityReason, Reservation, ReservationSource } from "../../services/reservations/types";
+import { formatTimeInZone, getRestaurantTimeZone, isoDateInZone } from "../../services/reservations/timezone";
+
+interface ReservationFormProps {
+  restaurantId: string;
+  date: string; // Default date for new bookings
+  reservation?: Reservation; // Edit this booking instead of creating one
+  onDone: () => void;
+}
+
+export const SOURCE_LABELS: Record<ReservationSource, string> = {
+  whatsapp: "WhatsApp",
+  phone: "Teléfono",
+  walk_in: "Sin reserva",
+  web: "Web",
+};
+
+const REASON_LABELS: Partial<Record<NonNullable<AvailabilityReason>, string>> = {
+  capacity: "No queda aforo a esa hora.",
+  pacing: "Ya llegan demasiadas mesas en ese tramo.",
+  max_party: "El grupo supera el máximo por reserva.",
+  out_of_hours: "Fuera del horario del local.",
+  turn_end: "No da tiempo antes del cierre del turno.",
+  closed: "El local está cerrado ese día.",
+  closure: "Esa franja está cerrada (evento o cierre programado).",
+  too_soon: "Menos antelación de la mínima.",
+  too_far: "Demasiado lejos en el calendario.",
+  same_day_cutoff: "Ya no se admiten reservas para hoy.",
+};
+
+const HOST_CTX = { actor: "owner", channel: "owner_panel" } as const;
+
+const ReservationForm: React.FC<ReservationFormProps> = ({ restaurantId, date, reservation, onDone }) => {
+  const timeZone = getRestaurantTimeZone(restaurantId);
+  const [source, setSource] = useState<ReservationSource>(reservation?.source ?? "phone");
+  const [name, setName] = useState(reservation?.name ?? "");
+  const [phone, setPhone] = useState(reservation?.phone ?? "");
+  const [formDate, setFormDate] = useState(reservation?.date ?? date);
+  const [time, setTime] = useState(reservation?.time ?? "");
+  const [partySize, setPartySize] = useState<number>(reservation?.partySize ?? 2);
+  const [notes, setNotes] = useState(reservation?.notes ?? "");
+  const [refusal, setRefusal] = useState<EngineResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const changeSource = (next: ReservationSource) => {
+    setSource(next);
+    // A walk-in is here now.
+    if (next === "walk_in" && !reservation) {
+      const now = new Date();
+      setFormDate(isoDateInZone(now, timeZone));
+      setTime(formatTimeInZone(now.getTime(), timeZone));
+    }
+  };
+
+  const submit = (override: boolean, at?: { date: string; time: string }) => {
+    setError(null);
+    if (!name.trim() || !(at?.time ?? time) || partySize < 1) {
+      setError("Nombre, hora y personas son obligatorios.");
+      return;
+    }
+    const fields = { date: at?.date ?? formDate, time: at?.time ?? time, party_size: partySize, notes: notes.trim() || undefined };
+    const ctx = { restaurant_id: restaurantId, phone: phone.trim(), override, ...HOST_CTX };
+    const result = reservation
+      ? ReservationEngine.execute(
+          {
+            type: "update_reservation",
+            payload: { reservation_id: reservation.id, changes: { ...fields, name: name.trim(), phone: phone.trim(), source } },
+          },
+          ctx
+        )
+      : ReservationEngine.execute(
+          { type: "create_reservation", payload: { ...fields, name: name.trim(), phone: phone.trim(), source } },
+          ctx
+        );
+
+    if (!result.success) {
+      if (result.availability === "not_available") setRefusal(result);
+      else setError(result.message ?? "No se pudo guardar la reserva.");
+      return;
+    }
+    if (result.duplicate) {
+      setError(`Ya existe una reserva de ese teléfono a esa hora (${result.data?.code}).`);
+      return;
+    }
+
+    // Walk-ins are already at the door.
+    const saved = result.data as Reservation;
+    if (!reservation && source === "walk_in") {
+      try {
+        AuditLog.record(HOST_CTX, saved, ReservationRepository.transition(restaurantId, saved.id, "arrived"));
+      } catch {
+        // ignore: the booking exists, the host can mark the arrival by hand
+      }
+    }
+    onDone();
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-3 bg-white space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-900">{reservation ? `Editar reserva ${reservation.code}` : "Nueva reserva"}</h4>
+        <button onClick={onDone} className="text-xs font-semibold text-slate-600 hover:text-slate-900">
+          Cerrar
+        </button>
+      </div>
+
+      {error ? (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block text-xs font-semibold text-slate-700">
+          Origen
+          <select
+            value={source}
+            onChange={(e) => changeSource(e.target.value as ReservationSource)}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm bg-white font-normal"
+          >
+            {(Object.keys(SOURCE_LABELS) as ReservationSource[]).map((s) => (
+              <option key={s} value={s}>
+                {SOURCE_LABELS[s]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-xs font-semibold text-slate-700">
+          Personas
+          <input
+            type="number"
+            min={1}
+            value={partySize}
+            onChange={(e) => setPartySize(Math.max(1, Math.trunc(Number(e.target.value)) || 1))}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="block text-xs font-semibold text-slate-700">
+          Nombre
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="block text-xs font-semibold text-slate-700">
+          Teléfono
+          <input
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder={source === "walk_in" ? "Opcional" : "+34..."}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="block text-xs font-semibold text-slate-700">
+          Fecha
+          <input
+            type="date"
+            value={formDate}
+            onChange={(e) => setFormDate(e.target.value)}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+        <label className="block text-xs font-semibold text-slate-700">
+          Hora
+          <input
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value)}
+            className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+          />
+        </label>
+      </div>
+      <label className="block text-xs font-semibold text-slate-700">
+        Notas
+        <input
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          className="mt-1 w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm font-normal"
+        />
+      </label>
+
+      {refusal ? (
+        <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800 space-y-2">
+          <div>{(refusal.reason && REASON_LABELS[refusal.reason]) || "No hay disponibilidad."}</div>
+          {refusal.alternatives?.length ? (
+            <div className="flex flex-wrap gap-2">
+              {refusal.alternatives.map((a) => (
+                <button
+                  key={`${a.date} ${a.time}`}
+                  onClick={() => submit(false, a)}
+                  className="px-2 py-1 rounded-md text-xs font-semibold border border-amber-300 bg-white hover:bg-amber-100"
+                >
+                  {a.date === formDate ? a.time : `${a.date} ${a.time}`}
+                </button>
+              ))}
+            </div>
+          ) : null}
+          <button
+            onClick={() => submit(true)}
+            className="px-3 py-1.5 rounded-md text-xs font-semibold bg-amber-600 text-white hover:bg-amber-700"
+          >
+            Meter igualmente
+          </button>
+        </div>
+      ) : null}
+
+      <button
+        onClick={() => {
+          setRefusal(null);
+          submit(false);
+        }}
+        className="w-full px-3 py-2 rounded-md text-sm font-semibold bg-slate-900 text-white hover:bg-slate-800"
+      >
+        {reservation ? "Guardar cambios" : "Crear reserva"}
+      </button>
+    </div>
+  );
+};
+
+export default ReservationForm;
@@ -0,0 +1,96 @@
+import React, { useMemo } from "react";
+import { AuditLog } from "../../services/reservations/audit";
+import { AuditActor, AuditChannel, AuditEntry, ReservationStatus } from "../../services/reservations/types";
+import { STATUS_LABELS } from "../../services/reservations/lifecycle";
+import { formatTimeInZone, isoDateInZone } from "../../services/reservations/timezone";
+
+interface ReservationHistoryProps {
+  restaurantId: string;
+  reservationId: string;
+  timeZone: string;
+  refreshKey: number;
+  tableLabel: (ids: string[]) => string;
+}
+
+const ACTOR_LABEL: Record<AuditActor, string> = {
+  bot: "Bot",
+  owner: "Local",
+  guest: "Cliente",
+};
+
+const CHANNEL_LABEL: Record<AuditChannel, string> = {
+  whatsapp: "WhatsApp",
+  owner_panel: "Panel",
+  api: "API",
+};
+
+const ACTION_LABEL: Record<AuditEntry["action"], string> = {
+  created: "Creada",
+  updated: "Modificada",
+  status_changed: "Estado",
+};
+
+const FIELD_LABEL: Record<string, string> = {
+  name: "Nombre",
+  phone: "Teléfono",
+  date: "Fecha",
+  time: "Hora",
+  partySize: "Personas",
+  durationMin: "Duración (min)",
+  table_ids: "Mesa",
+  seating: "Preferencia",
+  notes: "Notas",
+  source: "Origen",
+  status: "Estado",
+  lateCancel: "Cancelación tardía",
+  guestConfirmedAt: "Confirmada por el cliente",
+};
+
+const ReservationHistory: React.FC<ReservationHistoryProps> = ({ restaurantId, reservationId, timeZone, refreshKey, tableLabel }) => {
+  const entries = useMemo(() => {
+    void refreshKey;
+    return AuditLog.listByReservation(restaurantId, reservationId);
+  }, [restaurantId, reservationId, refreshKey]);
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === "") return "—";
+    if (field === "status") return STATUS_LABELS[value as ReservationStatus] ?? String(value);
+    if (field === "guestConfirmedAt" && typeof value === "number") return formatTimeInZone(value, timeZone);
+    if (field === "table_ids" && Array.isArray(value)) return value.length > 0 ? tableLabel(value as string[]) : "—";
+    if (typeof value === "boolean") return value ? "Sí" : "No";
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+  };
+
+  if (entries.length === 0) {
+    return <div className="text-xs text-gray-500 italic">Sin cambios registrados.</div>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {entries.map((e) => (
+        <li key={e.id} className="text-xs text-gray-700">
+          <span className="tabular-nums text-gray-500">
+            {isoDateInZone(new Date(e.at), timeZone)} {formatTimeInZone(e.at, timeZone)}
+          </span>{" "}
+          <span className="font-semibold">{ACTION_LABEL[e.action]}</span>{" "}
+          <span className="text-gray-500">
+            · {ACTOR_LABEL[e.actor]} ({CHANNEL_LABEL[e.channel]})
+          </span>
+          {e.action !== "created" ? (
+            <div className="ml-4 text-gray-600">
+              {Object.keys(e.changes).map((field) => (
+                <div key={field}>
+                  {FIELD_LABEL[field] ?? field}: {formatValue(field, e.changes[field].before)} →{" "}
+                  <span className="font-semibold">{formatValue(field, e.changes[field].after)}</span>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ReservationHistory;
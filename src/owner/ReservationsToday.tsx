@@ -1,11 +1,22 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { ReservationRepository } from "../../services/reservations/repository";
-import { Reservation } from "../../services/reservations/types";
+import { CapacityBlock, CapacityConfig, Reservation, ReservationStatus } from "../../services/reservations/types";
 import type { RestaurantTable } from "../../types";
-import { parseTimeToMinutes } from "../../services/reservations/timeSlots";
+import { blocksOnDate, blockWindow, serviceMinutesOf } from "../../services/reservations/schedule";
 import { connectTablesStream, fetchTablesState } from "../../services/tables/tableApi";
 import { getReservationSettings } from "../../services/reservations/settings";
-import { listAvailableTablesForReservation, pickTableForReservation } from "../../services/reservations/tableAssignment";
+import { listTableCombinations, pickTableForReservation } from "../../services/reservations/tableAssignment";
+import { isActiveStatus, isCancelledStatus, nextStatuses, STATUS_LABELS } from "../../services/reservations/lifecycle";
+import { describeSeating, tableSetMatchesSeating } from "../../services/reservations/seating";
+import { describeSpecialRequests } from "../../services/reservations/specialRequests";
+import { formatTimeInZone, getRestaurantTimeZone } from "../../services/reservations/timezone";
+import { findSuspectedDuplicates } from "../../services/reservations/duplicates";
+import { AuditLog } from "../../services/reservations/audit";
+import { findBlockConflicts } from "../../services/reservations/blocks";
+import { GuestRepository, normalizePhone } from "../../services/guests/repository";
+import ReservationHistory from "./ReservationHistory";
+import GuestCard from "./GuestCard";
+import ReservationForm, { SOURCE_LABELS } from "./ReservationForm";
 
 interface ReservationsTodayProps {
   restaurantId: string;
@@ -13,9 +24,35 @@ interface ReservationsTodayProps {
   refreshKey: number;
 }
 
-function sortByTime(a: Reservation, b: Reservation): number {
-  const am = parseTimeToMinutes(a.time);
-  const bm = parseTimeToMinutes(b.time);
+// Button for each status a host can move a booking to.
+const ACTION_LABELS: Record<ReservationStatus, string> = {
+  pending: "Pendiente",
+  confirmed: "Confirmar",
+  arrived: "Ha llegado",
+  seated: "Sentar",
+  completed: "Finalizar",
+  no_show: "No vino",
+  cancelled_by_guest: "Cancela cliente",
+  cancelled_by_restaurant: "Cancelar",
+};
+
+const STATUS_CLASS: Record<ReservationStatus, string> = {
+  pending: "text-amber-700",
+  confirmed: "text-green-700",
+  arrived: "text-sky-700",
+  seated: "text-indigo-700",
+  completed: "text-gray-700",
+  no_show: "text-red-700",
+  cancelled_by_guest: "text-gray-500",
+  cancelled_by_restaurant: "text-gray-500",
+};
+
+const OWNER_SOURCE = { actor: "owner", channel: "owner_panel" } as const;
+
+// Service-day order: a 00:30 booking of a late shift sorts after 23:00.
+function sortByTime(cfg: CapacityConfig, a: Reservation, b: Reservation): number {
+  const am = serviceMinutesOf(cfg, a.date, a.time);
+  const bm = serviceMinutesOf(cfg, b.date, b.time);
   if (!Number.isFinite(am) && !Number.isFinite(bm)) return 0;
   if (!Number.isFinite(am)) return 1;
   if (!Number.isFinite(bm)) return -1;
@@ -24,9 +61,13 @@ function sortByTime(a: Reservation, b: Reservation): number {
 
 const ReservationsToday: React.FC<ReservationsTodayProps> = ({ restaurantId, date, refreshKey }) => {
   const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const reservations = useMemo(() => {
     void refreshKey;
-    return ReservationRepository.getByDateAll(restaurantId, date).slice().sort(sortByTime);
+    const settings = getReservationSettings(restaurantId);
+    return ReservationRepository.getByDateAll(restaurantId, date).slice().sort((a, b) => sortByTime(settings, a, b));
   }, [restaurantId, date, refreshKey]);
 
   useEffect(() => {
@@ -52,10 +93,69 @@ const ReservationsToday: React.FC<ReservationsTodayProps> = ({ restaurantId, dat
     };
   }, [restaurantId]);
 
-  const activeCount = reservations.filter((r) => r.status === "active").length;
-  const cancelledCount = reservations.filter((r) => r.status === "cancelled").length;
+  const activeCount = reservations.filter((r) => isActiveStatus(r.status)).length;
+  const cancelledCount = reservations.filter((r) => isCancelledStatus(r.status)).length;
   const tableNameById = useMemo(() => new Map(tables.map((t) => [t.id, t.name])), [tables]);
+  const tableSetLabel = (ids: string[]) => ids.map((id) => tableNameById.get(id) ?? id).join(" + ");
+  const assignedTables = (r: Reservation): RestaurantTable[] =>
+    (r.table_ids ?? []).map((id) => tables.find((t) => t.id === id)).filter((t): t is RestaurantTable => Boolean(t));
   const cfg = useMemo(() => getReservationSettings(restaurantId), [restaurantId, refreshKey]);
+  const timeZone = useMemo(() => getRestaurantTimeZone(restaurantId), [restaurantId, refreshKey]);
+  const suspectedDuplicates = useMemo(() => findSuspectedDuplicates(cfg, reservations), [cfg, reservations]);
+  // One pass over the bookings for every guest card instead of one per row.
+  const guestSummaries = useMemo(() => {
+    void refreshKey;
+    return new Map(GuestRepository.list(restaurantId).map((g) => [g.phone, g]));
+  }, [restaurantId, refreshKey]);
+  const blocks = useMemo(() => blocksOnDate(cfg, date), [cfg, date]);
+  // Each block is drawn just before the first booking that starts at or after it.
+  const blockPlacement = useMemo(() => {
+    const before = new Map<string, CapacityBlock[]>();
+    const trailing: CapacityBlock[] = [];
+    for (const b of blocks) {
+      const startMin = blockWindow(b).startMin;
+      const next = reservations.find((r) => serviceMinutesOf(cfg, r.date, r.time) >= startMin);
+      if (next) before.set(next.id, [...(before.get(next.id) ?? []), b]);
+      else trailing.push(b);
+    }
+    return { before, trailing };
+  }, [cfg, blocks, reservations]);
+  // Bookings sitting at a table an event holds at that time.
+  const heldBy = useMemo(() => {
+    const map = new Map<string, CapacityBlock>();
+    for (const b of blocks) {
+      for (const r of findBlockConflicts(restaurantId, b)) if (!map.has(r.id)) map.set(r.id, b);
+    }
+    return map;
+  }, [restaurantId, blocks, reservations]);
+
+  const changeStatus = (r: Reservation, to: ReservationStatus) => {
+    try {
+      setError(null);
+      const updated = ReservationRepository.transition(restaurantId, r.id, to);
+      AuditLog.record(OWNER_SOURCE, r, updated);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update reservation.");
+    }
+  };
+
+  const assignTableIds = (r: Reservation, ids: string[] | undefined) => {
+    const updated = ReservationRepository.update(restaurantId, r.id, { table_ids: ids });
+    AuditLog.record(OWNER_SOURCE, r, updated);
+  };
+
+  const blockRow = (b: CapacityBlock) => (
+    <div key={b.id} className="flex items-center gap-2 border border-dashed border-red-300 bg-red-50 rounded-md px-3 py-2 text-red-900">
+      <span className="text-sm font-bold tabular-nums">
+        {b.start}–{b.end}
+      </span>
+      <span className="text-[11px] font-semibold uppercase">Bloqueo</span>
+      <span className="text-sm truncate">
+        {b.label ? `${b.label} · ` : ""}
+        {b.seats}p{b.table_ids?.length ? ` · ${tableSetLabel(b.table_ids)}` : ""}
+      </span>
+    </div>
+  );
 
   return (
     <div className="space-y-3">
@@ -67,6 +167,12 @@ const ReservationsToday: React.FC<ReservationsTodayProps> = ({ restaurantId, dat
         </div>
       </div>
 
+      {error ? (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+          {error}
+        </div>
+      ) : null}
+
       {reservations.length === 0 ? (
         <div className="text-sm text-gray-500 italic border border-dashed border-gray-200 rounded-md p-4">
           No hay reservas para esta fecha.
@@ -74,96 +180,193 @@ const ReservationsToday: React.FC<ReservationsTodayProps> = ({ restaurantId, dat
       ) : (
         <div className="space-y-2">
           {reservations.map((r) => (
-            <div
-              key={r.id}
-              className={`border rounded-md p-3 ${
-                r.status === "cancelled" ? "border-gray-200 bg-gray-50" : "border-gray-200 bg-white"
-              }`}
-            >
-              <div className="flex items-start justify-between gap-3">
-                <div className="min-w-0">
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm font-bold text-gray-900 tabular-nums">{r.time}</span>
-                    <span className="text-xs text-gray-500">·</span>
-                    <span className="text-sm font-semibold text-gray-800 truncate">{r.name}</span>
-                    <span className="text-xs text-gray-500">·</span>
-                    <span className="text-sm font-semibold text-gray-800">{r.partySize}p</span>
-                  </div>
-                  <div className="mt-1 text-xs text-gray-600 truncate">
-                    {r.phone} {r.notes ? `· ${r.notes}` : ""}
-                  </div>
-                  <div className="mt-2 text-xs text-gray-700">
-                    Mesa:{" "}
-                    <span className="font-semibold">
-                      {r.table_id ? (tableNameById.get(r.table_id) ?? r.table_id) : "Sin asignar"}
-                    </span>
-                  </div>
-                  <div className="mt-2 text-xs">
-                    Estado:{" "}
-                    <span className={r.status === "active" ? "font-semibold text-green-700" : "font-semibold text-gray-500"}>
-                      {r.status}
-                    </span>
-                  </div>
-                </div>
-
-                <div className="flex flex-col gap-2">
-                  {r.status === "active" && tables.length > 0 ? (
-                    <div className="flex flex-col gap-2">
-                      <select
-                        value={r.table_id || ""}
-                        onChange={(e) => {
-                          const tableId = e.target.value || undefined;
-                          ReservationRepository.update(restaurantId, r.id, { table_id: tableId });
-                        }}
-                        className="px-3 py-2 rounded-md text-sm border border-gray-200 bg-white"
-                        title="Mover a otra mesa"
-                      >
-                        <option value="">Sin asignar</option>
-                        {listAvailableTablesForReservation(
-                          restaurantId,
-                          r.date,
-                          r.time,
-                          r.partySize,
-                          tables,
-                          reservations,
-                          r.id
-                        ).map((t) => (
-                          <option key={t.id} value={t.id}>
-                            {t.name} ({t.kind === "stool" ? 1 : t.capacity}p)
-                          </option>
+            <React.Fragment key={r.id}>
+              {(blockPlacement.before.get(r.id) ?? []).map(blockRow)}
+              <div
+                className={`border rounded-md p-3 ${
+                  isActiveStatus(r.status) ? "border-gray-200 bg-white" : "border-gray-200 bg-gray-50"
+                }`}
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-bold text-gray-900 tabular-nums">{r.time}</span>
+                      <span className="text-[11px] font-mono px-1.5 py-0.5 rounded bg-gray-100 text-gray-700" title="Código de reserva">
+                        {r.code}
+                      </span>
+                      <span className="text-[11px] text-gray-500">{SOURCE_LABELS[r.source ?? "whatsapp"]}</span>
+                      <span className="text-xs text-gray-500">·</span>
+                      <span className="text-sm font-semibold text-gray-800 truncate">{r.name}</span>
+                      <span className="text-xs text-gray-500">·</span>
+                      <span className="text-sm font-semibold text-gray-800">{r.partySize}p</span>
+                    </div>
+                    <div className="mt-1 text-xs text-gray-600 truncate">
+                      {r.phone} {r.notes ? `· ${r.notes}` : ""}
+                    </div>
+                    {r.requests ? (
+                      <div className="mt-1 flex flex-wrap gap-1.5 text-[11px]">
+                        {describeSpecialRequests(r.requests).map((label) => (
+                          <span key={label} className="px-2 py-0.5 rounded-full border border-violet-200 bg-violet-50 text-violet-700">
+                            {label}
+                          </span>
                         ))}
-                      </select>
-                      {!r.table_id ? (
-                        <button
-                          onClick={() => {
-                            const t = pickTableForReservation(restaurantId, r.date, r.time, r.partySize, tables, reservations, r.id);
-                            if (t) ReservationRepository.update(restaurantId, r.id, { table_id: t.id });
-                          }}
-                          className="px-3 py-2 rounded-md text-sm font-semibold border border-gray-200 hover:bg-gray-50"
-                        >
-                          Autoasignar
-                        </button>
+                        {r.requests.allergens?.length ? (
+                          <span className="px-2 py-0.5 rounded-full border border-red-200 bg-red-50 text-red-700 font-semibold">
+                            Alérgenos: {r.requests.allergens.join(", ")}
+                          </span>
+                        ) : null}
+                      </div>
+                    ) : null}
+                    <div className="mt-1">
+                      <GuestCard
+                        restaurantId={restaurantId}
+                        phone={r.phone}
+                        refreshKey={refreshKey}
+                        summary={guestSummaries.get(normalizePhone(r.phone))}
+                      />
+                    </div>
+                    {suspectedDuplicates.has(r.id) ? (
+                      <div className="mt-1 text-[11px] font-semibold text-amber-700">
+                        ¿Duplicada? Mismo teléfono con otra reserva a la misma hora.
+                      </div>
+                    ) : null}
+                    <div className="mt-2 text-xs text-gray-700">
+                      Mesa:{" "}
+                      <span className="font-semibold">
+                        {r.table_ids?.length ? tableSetLabel(r.table_ids) : "Sin asignar"}
+                      </span>
+                      {r.seating ? (
+                        <span className="ml-2 text-[11px] px-2 py-0.5 rounded-full border border-sky-200 bg-sky-50 text-sky-700">
+                          {r.seating.strict ? "Exige" : "Prefiere"}: {describeSeating(r.seating)}
+                        </span>
+                      ) : null}
+                      {r.seating && assignedTables(r).length > 0 && !tableSetMatchesSeating(assignedTables(r), r.seating) ? (
+                        <span className="ml-2 text-[11px] font-semibold text-amber-700">No coincide</span>
+                      ) : null}
+                      {heldBy.has(r.id) ? (
+                        <span className="ml-2 text-[11px] font-semibold text-red-700">
+                          Mesa bloqueada {heldBy.get(r.id)?.start}–{heldBy.get(r.id)?.end}
+                        </span>
+                      ) : null}
+                    </div>
+                    <div className="mt-2 text-xs">
+                      Estado:{" "}
+                      <span className={`font-semibold ${STATUS_CLASS[r.status]}`}>{STATUS_LABELS[r.status]}</span>
+                      {r.statusHistory?.length ? (
+                        <span className="text-gray-500"> · {formatTimeInZone(r.statusHistory[r.statusHistory.length - 1].at, timeZone)}</span>
+                      ) : null}
+                      {r.lateCancel ? <span className="ml-2 text-[11px] font-semibold text-amber-700">Cancelación tardía</span> : null}
+                      {r.guestConfirmedAt ? (
+                        <span className="ml-2 text-[11px] font-semibold text-emerald-700">Confirmada por el cliente</span>
+                      ) : r.reminderSentAt && isActiveStatus(r.status) ? (
+                        <span className="ml-2 text-[11px] text-gray-500">Recordatorio enviado</span>
                       ) : null}
+                      <button
+                        onClick={() => setHistoryFor(historyFor === r.id ? null : r.id)}
+                        className="ml-2 text-[11px] font-semibold text-gray-600 hover:text-gray-900 underline"
+                      >
+                        {historyFor === r.id ? "Ocultar historial" : "Historial"}
+                      </button>
                     </div>
-                  ) : null}
-                  <button
-                    onClick={() => ReservationRepository.cancel(restaurantId, r.id)}
-                    disabled={r.status !== "active"}
-                    className={`px-3 py-2 rounded-md text-sm font-semibold border ${
-                      r.status === "active"
-                        ? "border-red-200 text-red-700 hover:bg-red-50"
-                        : "border-gray-200 text-gray-400 cursor-not-allowed"
-                    }`}
-                    title={r.status === "active" ? "Cancelar reserva" : "Ya está cancelada"}
-                  >
-                    Cancelar
-                  </button>
+                    {editingId === r.id ? (
+                      <div className="mt-2">
+                        <ReservationForm
+                          restaurantId={restaurantId}
+                          date={r.date}
+                          reservation={r}
+                          onDone={() => setEditingId(null)}
+                        />
+                      </div>
+                    ) : null}
+                    {historyFor === r.id ? (
+                      <div className="mt-2 border-t border-gray-100 pt-2">
+                        <ReservationHistory
+                          restaurantId={restaurantId}
+                          reservationId={r.id}
+                          timeZone={timeZone}
+                          refreshKey={refreshKey}
+                          tableLabel={tableSetLabel}
+                        />
+                      </div>
+                    ) : null}
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    {isActiveStatus(r.status) && tables.length > 0 ? (
+                      <div className="flex flex-col gap-2">
+                        <select
+                          value={(r.table_ids ?? []).join("+")}
+                          onChange={(e) => {
+                            const ids = e.target.value ? e.target.value.split("+") : undefined;
+                            assignTableIds(r, ids);
+                          }}
+                          className="px-3 py-2 rounded-md text-sm border border-gray-200 bg-white"
+                          title="Mover a otra mesa"
+                        >
+                          <option value="">Sin asignar</option>
+                          {r.table_ids?.length ? <option value={r.table_ids.join("+")}>{tableSetLabel(r.table_ids)}</option> : null}
+                          {listTableCombinations(restaurantId, r.date, r.time, r.partySize, tables, reservations, r.id)
+                            .filter((set) => set.map((t) => t.id).join("+") !== (r.table_ids ?? []).join("+"))
+                            .map((set) => {
+                              const key = set.map((t) => t.id).join("+");
+                              const seats = set.reduce((sum, t) => sum + (t.kind === "stool" ? 1 : t.capacity), 0);
+                              return (
+                                <option key={key} value={key}>
+                                  {set.map((t) => t.name).join(" + ")} ({seats}p)
+                                </option>
+                              );
+                            })}
+                        </select>
+                        {!r.table_ids?.length ? (
+                          <button
+                            onClick={() => {
+                              const set = pickTableForReservation(
+                                restaurantId,
+                                r.date,
+                                r.time,
+                                r.partySize,
+                                tables,
+                                reservations,
+                                r.id,
+                                r.seating
+                              );
+                              if (set) assignTableIds(r, set.map((t) => t.id));
+                            }}
+                            className="px-3 py-2 rounded-md text-sm font-semibold border border-gray-200 hover:bg-gray-50"
+                          >
+                            Autoasignar
+                          </button>
+                        ) : null}
+                      </div>
+                    ) : null}
+                    {isActiveStatus(r.status) && editingId !== r.id ? (
+                      <button
+                        onClick={() => setEditingId(r.id)}
+                        className="px-3 py-2 rounded-md text-sm font-semibold border border-gray-200 text-gray-800 hover:bg-gray-50"
+                      >
+                        Editar
+                      </button>
+                    ) : null}
+                    {nextStatuses(r.status).map((to) => (
+                      <button
+                        key={to}
+                        onClick={() => changeStatus(r, to)}
+                        className={`px-3 py-2 rounded-md text-sm font-semibold border ${
+                          isCancelledStatus(to) || to === "no_show"
+                            ? "border-red-200 text-red-700 hover:bg-red-50"
+                            : "border-gray-200 text-gray-800 hover:bg-gray-50"
+                        }`}
+                      >
+                        {ACTION_LABELS[to]}
+                      </button>
+                    ))}
+                  </div>
                 </div>
               </div>
-            </div>
+            </React.Fragment>
           ))}
         </div>
       )}
+      {blockPlacement.trailing.length > 0 ? <div className="space-y-2">{blockPlacement.trailing.map(blockRow)}</div> : null}
     </div>
   );
 };
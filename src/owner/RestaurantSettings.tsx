@@ -1,9 +1,11 @@
 import React, { useEffect, useMemo, useState } from "react";
-import { CapacityConfig, SlotRoundingMode } from "../../services/reservations/types";
+import { BookingRules, CapacityConfig, ChangePolicy, GuestRestrictionAction, GuestRestrictionRules, DurationRule, OpeningRange, ReminderRules, SlotRoundingMode, Weekday } from "../../services/reservations/types";
 import { getReservationSettings, updateReservationSettings } from "../../services/reservations/settings";
 import { RestaurantConfigRepository } from "../../services/restaurants/configRepository";
 import { RestaurantRepository } from "../../services/restaurants/repository";
 import { RestaurantConfig } from "../../types";
+import { DEFAULT_CONFIG } from "../../constants";
+import Closures from "./Closures";
 
 interface RestaurantSettingsProps {
   restaurantId: string;
@@ -15,6 +17,146 @@ function toInt(value: string): number {
   return Number.isFinite(n) ? Math.trunc(n) : 0;
 }
 
+// Display order Monday -> Sunday (values follow Date#getUTCDay()).
+const WEEKDAYS: Array<{ key: Weekday; label: string }> = [
+  { key: 1, label: "Lunes" },
+  { key: 2, label: "Martes" },
+  { key: 3, label: "Miércoles" },
+  { key: 4, label: "Jueves" },
+  { key: 5, label: "Viernes" },
+  { key: 6, label: "Sábado" },
+  { key: 0, label: "Domingo" },
+];
+
+// Zones offered in the settings; the engine accepts any IANA name.
+const TIME_ZONES: Array<{ value: string; label: string }> = [
+  { value: "Europe/Madrid", label: "Península y Baleares (Europe/Madrid)" },
+  { value: "Atlantic/Canary", label: "Canarias (Atlantic/Canary)" },
+  { value: "Europe/Lisbon", label: "Portugal (Europe/Lisbon)" },
+  { value: "Europe/London", label: "Reino Unido (Europe/London)" },
+  { value: "Europe/Paris", label: "Francia (Europe/Paris)" },
+  { value: "America/Mexico_City", label: "México (America/Mexico_City)" },
+  { value: "America/Bogota", label: "Colombia (America/Bogota)" },
+  { value: "America/Argentina/Buenos_Aires", label: "Argentina (America/Argentina/Buenos_Aires)" },
+  { value: "UTC", label: "UTC" },
+];
+
+type DayMode = "base" | "custom" | "closed";
+
+interface DurationRulesEditorProps {
+  rules: DurationRule[];
+  onChange: (next: DurationRule[]) => void;
+}
+
+const DurationRulesEditor: React.FC<DurationRulesEditorProps> = ({ rules, onChange }) => {
+  const patchRule = (index: number, patch: Partial<DurationRule>) => {
+    onChange(rules.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.map((r, i) => (
+        <div key={i} className="flex items-center gap-2 text-xs text-slate-600">
+          <span>Hasta</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={r.maxPartySize}
+            onChange={(e) => patchRule(i, { maxPartySize: toInt(e.target.value) })}
+            className="w-16 border border-slate-300 rounded-md px-2 py-1 text-sm"
+          />
+          <span>personas:</span>
+          <input
+            type="number"
+            min={1}
+            step={5}
+            value={r.durationMin}
+            onChange={(e) => patchRule(i, { durationMin: toInt(e.target.value) })}
+            className="w-20 border border-slate-300 rounded-md px-2 py-1 text-sm"
+          />
+          <span>min</span>
+          <button
+            onClick={() => onChange(rules.filter((_, j) => j !== i))}
+            className="px-2 py-1 rounded-md text-xs font-semibold border border-slate-300 hover:bg-slate-100"
+          >
+            Quitar
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => {
+          const last = rules[rules.length - 1];
+          onChange([...rules, { maxPartySize: (last?.maxPartySize ?? 0) + 2, durationMin: last?.durationMin ?? 90 }]);
+        }}
+        className="px-2 py-1 rounded-md text-xs font-semibold border border-slate-300 hover:bg-slate-100"
+      >
+        + Regla
+      </button>
+    </div>
+  );
+};
+
+interface RangesEditorProps {
+  ranges: OpeningRange[];
+  onChange: (next: OpeningRange[]) => void;
+}
+
+const RangesEditor: React.FC<RangesEditorProps> = ({ ranges, onChange }) => {
+  const patchRange = (index: number, patch: Partial<OpeningRange>) => {
+    onChange(ranges.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {ranges.map((r, i) => (
+        <div key={i} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="time"
+              value={r.start}
+              onChange={(e) => patchRange(i, { start: e.target.value })}
+              className="border border-slate-300 rounded-md px-2 py-1 text-sm bg-white"
+            />
+            <span className="text-xs text-slate-500">a</span>
+            <input
+              type="time"
+              value={r.end}
+              onChange={(e) => patchRange(i, { end: e.target.value })}
+              className="border border-slate-300 rounded-md px-2 py-1 text-sm bg-white"
+            />
+            <button
+              onClick={() => onChange(ranges.filter((_, j) => j !== i))}
+              className="px-2 py-1 rounded-md text-xs font-semibold border border-slate-300 hover:bg-slate-100"
+              title="Quitar turno"
+            >
+              Quitar
+            </button>
+            <button
+              onClick={() => patchRange(i, { durationRules: r.durationRules ? undefined : [] })}
+              className="px-2 py-1 rounded-md text-xs font-semibold border border-slate-300 hover:bg-slate-100"
+              title="Duraciones propias de este turno"
+            >
+              {r.durationRules ? "Duración general" : "Duración propia"}
+            </button>
+          </div>
+          {r.durationRules ? (
+            <div className="pl-3 border-l border-slate-200">
+              <DurationRulesEditor rules={r.durationRules} onChange={(next) => patchRange(i, { durationRules: next })} />
+            </div>
+          ) : null}
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...ranges, { start: "13:00", end: "16:00" }])}
+        className="px-2 py-1 rounded-md text-xs font-semibold border border-slate-300 hover:bg-slate-100"
+      >
+        + Turno
+      </button>
+    </div>
+  );
+};
+
 const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurantId, refreshKey }) => {
   const current = useMemo(() => {
     void refreshKey;
@@ -28,6 +170,7 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurantId, r
   }, [restaurantId, refreshKey]);
 
   const [closedDate, setClosedDate] = useState("");
+  const [overrideDate, setOverrideDate] = useState("");
 
   const applyPatch = (patch: Partial<CapacityConfig>) => {
     updateReservationSettings(restaurantId, patch);
@@ -60,14 +203,51 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurantId, r
   };
 
   const openingHours = current.openingHours ?? [];
+  const weeklyHours = current.weeklyHours ?? {};
+  const bookingRules: BookingRules = current.bookingRules ?? { minNoticeMin: 0, maxHorizonDays: 0 };
+  const changePolicy: ChangePolicy = current.changePolicy ?? { cancelCutoffMin: 0, modifyCutoffMin: 0, allowLateCancel: false };
+  const reminders: ReminderRules = current.reminders ?? { enabled: false, hoursBefore: 24, releaseHoursBefore: 0 };
+  const guestRestrictions: GuestRestrictionRules = current.guestRestrictions ?? {
+    noShowThreshold: 0,
+    windowDays: 180,
+    action: "require_confirmation",
+    maxPartySize: 4,
+  };
+  const dateOverrides = current.dateOverrides ?? {};
 
-  const patchShift = (index: number, field: "start" | "end", value: string) => {
-    const next = openingHours.map((s) => ({ ...s }));
-    while (next.length <= index) {
-      next.push({ start: "00:00", end: "00:00" });
-    }
-    next[index][field] = value;
-    applyPatch({ openingHours: next });
+  const dayMode = (day: Weekday): DayMode => {
+    const ranges = weeklyHours[day];
+    if (!Array.isArray(ranges)) return "base";
+    return ranges.length === 0 ? "closed" : "custom";
+  };
+
+  const setDayMode = (day: Weekday, mode: DayMode) => {
+    const next = { ...weeklyHours };
+    if (mode === "base") delete next[day];
+    else if (mode === "closed") next[day] = [];
+    else next[day] = openingHours.map((r) => ({ ...r }));
+    applyPatch({ weeklyHours: next });
+  };
+
+  const setDayRanges = (day: Weekday, ranges: OpeningRange[]) => {
+    applyPatch({ weeklyHours: { ...weeklyHours, [day]: ranges } });
+  };
+
+  const addOverride = () => {
+    const d = overrideDate.trim();
+    if (!d || dateOverrides[d]) return;
+    applyPatch({ dateOverrides: { ...dateOverrides, [d]: openingHours.map((r) => ({ ...r })) } });
+    setOverrideDate("");
+  };
+
+  const setOverrideRanges = (d: string, ranges: OpeningRange[]) => {
+    applyPatch({ dateOverrides: { ...dateOverrides, [d]: ranges } });
+  };
+
+  const removeOverride = (d: string) => {
+    const next = { ...dateOverrides };
+    delete next[d];
+    applyPatch({ dateOverrides: next });
   };
 
   return (
@@ -105,6 +285,20 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurantId, r
               className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
             />
           </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Zona horaria</label>
+            <select
+              value={restaurantConfig.timezone || DEFAULT_CONFIG.timezone}
+              onChange={(e) => patchConfig({ timezone: e.target.value })}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
+            >
+              {TIME_ZONES.map((tz) => (
+                <option key={tz.value} value={tz.value}>
+                  {tz.label}
+                </option>
+              ))}
+            </select>
+          </div>
           <div>
             <label className="block text-xs font-semibold text-slate-700 mb-1">No-show (texto corto)</label>
             <input
@@ -123,41 +317,70 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurantId, r
           <p className="text-xs text-slate-500">Ajusta los turnos operativos que usa el motor de reservas.</p>
         </div>
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-          <div>
-            <label className="block text-xs font-semibold text-slate-700 mb-1">Comida inicia</label>
-            <input
-              type="time"
-              value={openingHours[0]?.start ?? "13:00"}
-              onChange={(e) => patchShift(0, "start", e.target.value)}
-              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
-            />
-          </div>
-          <div>
-            <label className="block text-xs font-semibold text-slate-700 mb-1">Comida termina</label>
-            <input
-              type="time"
-              value={openingHours[0]?.end ?? "16:00"}
-              onChange={(e) => patchShift(0, "end", e.target.value)}
-              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
-            />
+          <div className="sm:col-span-2">
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Horario base</label>
+            <p className="text-[11px] text-slate-500 mb-2">Se aplica a los días marcados como "Horario base".</p>
+            <RangesEditor ranges={openingHours} onChange={(next) => applyPatch({ openingHours: next })} />
           </div>
-          <div>
-            <label className="block text-xs font-semibold text-slate-700 mb-1">Cena inicia</label>
-            <input
-              type="time"
-              value={openingHours[1]?.start ?? "20:00"}
-              onChange={(e) => patchShift(1, "start", e.target.value)}
-              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
-            />
+          <div className="sm:col-span-2 space-y-2">
+            <label className="block text-xs font-semibold text-slate-700">Semana</label>
+            {WEEKDAYS.map((d) => {
+              const mode = dayMode(d.key);
+              return (
+                <div key={d.key} className="rounded-md border border-slate-200 p-2 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-semibold text-slate-800">{d.label}</span>
+                    <select
+                      value={mode}
+                      onChange={(e) => setDayMode(d.key, e.target.value as DayMode)}
+                      className="border border-slate-300 rounded-md px-2 py-1 text-sm bg-white"
+                    >
+                      <option value="base">Horario base</option>
+                      <option value="custom">Personalizado</option>
+                      <option value="closed">Cerrado</option>
+                    </select>
+                  </div>
+                  {mode === "custom" ? (
+                    <RangesEditor ranges={weeklyHours[d.key] ?? []} onChange={(next) => setDayRanges(d.key, next)} />
+                  ) : null}
+                </div>
+              );
+            })}
           </div>
-          <div>
-            <label className="block text-xs font-semibold text-slate-700 mb-1">Cena termina</label>
-            <input
-              type="time"
-              value={openingHours[1]?.end ?? "23:30"}
-              onChange={(e) => patchShift(1, "end", e.target.value)}
-              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
-            />
+          <div className="sm:col-span-2 space-y-2">
+            <label className="block text-xs font-semibold text-slate-700">Horarios especiales por fecha</label>
+            <p className="text-[11px] text-slate-500">Sustituyen al horario semanal ese día (ej. brunch, Nochebuena).</p>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={overrideDate}
+                onChange={(e) => setOverrideDate(e.target.value)}
+                className="border border-slate-300 rounded-md px-3 py-2 text-sm"
+              />
+              <button
+                onClick={addOverride}
+                className="px-3 py-2 rounded-md text-sm font-semibold border border-slate-300 hover:bg-slate-100"
+              >
+                Añadir
+              </button>
+            </div>
+            {Object.keys(dateOverrides).sort().map((d) => (
+              <div key={d} className="rounded-md border border-slate-200 p-2 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold text-slate-800 tabular-nums">{d}</span>
+                  <button
+                    onClick={() => removeOverride(d)}
+                    className="px-2 py-1 rounded-md text-xs font-semibold border border-slate-300 hover:bg-slate-100"
+                  >
+                    Eliminar
+                  </button>
+                </div>
+                {(dateOverrides[d] ?? []).length === 0 ? (
+                  <div className="text-xs text-slate-500 italic">Cerrado todo el día.</div>
+                ) : null}
+                <RangesEditor ranges={dateOverrides[d] ?? []} onChange={(next) => setOverrideRanges(d, next)} />
+              </div>
+            ))}
           </div>
           <div className="sm:col-span-2">
             <label className="block text-xs font-semibold text-slate-700 mb-1">Horario en texto (chat)</label>
@@ -267,6 +490,13 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurantId, r
               className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
             />
           </div>
+          <div className="sm:col-span-2">
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Duración por tamaño de grupo</label>
+            <p className="text-[11px] text-slate-500 mb-2">
+              Se aplica la primera regla que cubra al grupo; si ninguna encaja, se usa la duración estándar.
+            </p>
+            <DurationRulesEditor rules={current.durationRules ?? []} onChange={(next) => applyPatch({ durationRules: next })} />
+          </div>
           <div>
             <label className="block text-xs font-semibold text-slate-700 mb-1">Buffer entre mesas (min)</label>
             <input
@@ -289,6 +519,203 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurantId, r
               <option value="30">30 min</option>
             </select>
           </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Máx. comensales que llegan por slot</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={current.pacing?.maxCoversPerSlot ?? 0}
+              onChange={(e) => applyPatch({ pacing: { ...current.pacing, maxCoversPerSlot: toInt(e.target.value) } })}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+            />
+            <p className="text-[11px] text-slate-500 mt-1">0 = sin límite.</p>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Máx. reservas que llegan por slot</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={current.pacing?.maxReservationsPerSlot ?? 0}
+              onChange={(e) => applyPatch({ pacing: { ...current.pacing, maxReservationsPerSlot: toInt(e.target.value) } })}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+            />
+            <p className="text-[11px] text-slate-500 mt-1">0 = sin límite.</p>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Antelación mínima (min)</label>
+            <input
+              type="number"
+              min={0}
+              step={5}
+              value={bookingRules.minNoticeMin}
+              onChange={(e) => applyPatch({ bookingRules: { ...bookingRules, minNoticeMin: toInt(e.target.value) } })}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+            />
+            <p className="text-[11px] text-slate-500 mt-1">0 = sin límite.</p>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Reservas con hasta (días)</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={bookingRules.maxHorizonDays}
+              onChange={(e) => applyPatch({ bookingRules: { ...bookingRules, maxHorizonDays: toInt(e.target.value) } })}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+            />
+            <p className="text-[11px] text-slate-500 mt-1">0 = sin límite.</p>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Cierre de reservas para hoy</label>
+            <input
+              type="time"
+              value={bookingRules.sameDayCutoff ?? ""}
+              onChange={(e) => applyPatch({ bookingRules: { ...bookingRules, sameDayCutoff: e.target.value || undefined } })}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+            />
+            <p className="text-[11px] text-slate-500 mt-1">Vacío = sin hora de cierre.</p>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Cancelar hasta (min antes)</label>
+            <input
+              type="number"
+              min={0}
+              step={15}
+              value={changePolicy.cancelCutoffMin}
+              onChange={(e) => applyPatch({ changePolicy: { ...changePolicy, cancelCutoffMin: toInt(e.target.value) } })}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+            />
+            <label className="mt-2 inline-flex items-center gap-2 text-xs text-slate-700">
+              <input
+                type="checkbox"
+                checked={changePolicy.allowLateCancel}
+                onChange={(e) => applyPatch({ changePolicy: { ...changePolicy, allowLateCancel: e.target.checked } })}
+              />
+              Aceptar cancelaciones tardías (se marcan)
+            </label>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Modificar hasta (min antes)</label>
+            <input
+              type="number"
+              min={0}
+              step={15}
+              value={changePolicy.modifyCutoffMin}
+              onChange={(e) => applyPatch({ changePolicy: { ...changePolicy, modifyCutoffMin: toInt(e.target.value) } })}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+            />
+            <p className="text-[11px] text-slate-500 mt-1">0 = sin límite.</p>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Recordatorio (horas antes)</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={reminders.hoursBefore}
+              onChange={(e) => applyPatch({ reminders: { ...reminders, hoursBefore: Math.max(1, toInt(e.target.value)) } })}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+            />
+            <label className="mt-2 inline-flex items-center gap-2 text-xs text-slate-700">
+              <input
+                type="checkbox"
+                checked={reminders.enabled}
+                onChange={(e) => applyPatch({ reminders: { ...reminders, enabled: e.target.checked } })}
+              />
+              Pedir confirmación por WhatsApp
+            </label>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Liberar sin confirmar (horas antes)</label>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={reminders.releaseHoursBefore}
+              onChange={(e) => applyPatch({ reminders: { ...reminders, releaseHoursBefore: toInt(e.target.value) } })}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+            />
+            <p className="text-[11px] text-slate-500 mt-1">0 = no liberar. Debe ser menor que el recordatorio.</p>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">No presentados: restringir tras</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={guestRestrictions.noShowThreshold}
+                onChange={(e) => applyPatch({ guestRestrictions: { ...guestRestrictions, noShowThreshold: toInt(e.target.value) } })}
+                className="w-20 border border-slate-300 rounded-md px-3 py-2 text-sm"
+              />
+              <span className="text-xs text-slate-600">ausencias en</span>
+              <input
+                type="number"
+                min={1}
+                step={30}
+                value={guestRestrictions.windowDays}
+                onChange={(e) => applyPatch({ guestRestrictions: { ...guestRestrictions, windowDays: Math.max(1, toInt(e.target.value)) } })}
+                className="w-20 border border-slate-300 rounded-md px-3 py-2 text-sm"
+              />
+              <span className="text-xs text-slate-600">días</span>
+            </div>
+            <p className="text-[11px] text-slate-500 mt-1">0 = sin restricción.</p>
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Qué hacer con esos clientes</label>
+            <select
+              value={guestRestrictions.action}
+              onChange={(e) => applyPatch({ guestRestrictions: { ...guestRestrictions, action: e.target.value as GuestRestrictionAction } })}
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm bg-white"
+            >
+              <option value="require_confirmation">Confirmación manual</option>
+              <option value="limit_party">Limitar tamaño del grupo</option>
+              <option value="block">No aceptar reservas del bot</option>
+            </select>
+            {guestRestrictions.action === "limit_party" ? (
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={guestRestrictions.maxPartySize}
+                onChange={(e) => applyPatch({ guestRestrictions: { ...guestRestrictions, maxPartySize: Math.max(1, toInt(e.target.value)) } })}
+                className="mt-2 w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+                title="Máximo de personas"
+              />
+            ) : null}
+          </div>
+          <div>
+            <label className="block text-xs font-semibold text-slate-700 mb-1">Máx. mesas juntas por reserva</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={current.tableCombinations?.maxTables ?? 3}
+              onChange={(e) =>
+                applyPatch({
+                  tableCombinations: {
+                    autoAdjacent: Boolean(current.tableCombinations?.autoAdjacent),
+                    maxTables: Math.max(1, toInt(e.target.value)),
+                  },
+                })
+              }
+              className="w-full border border-slate-300 rounded-md px-3 py-2 text-sm"
+            />
+            <label className="mt-2 inline-flex items-center gap-2 text-xs text-slate-700">
+              <input
+                type="checkbox"
+                checked={Boolean(current.tableCombinations?.autoAdjacent)}
+                onChange={(e) =>
+                  applyPatch({
+                    tableCombinations: { maxTables: current.tableCombinations?.maxTables ?? 3, autoAdjacent: e.target.checked },
+                  })
+                }
+              />
+              Juntar mesas contiguas del mapa
+            </label>
+          </div>
           <div>
             <label className="block text-xs font-semibold text-slate-700 mb-1">Redondeo de hora</label>
             <select
@@ -343,6 +770,8 @@ const RestaurantSettings: React.FC<RestaurantSettingsProps> = ({ restaurantId, r
           </div>
         )}
       </section>
+
+      <Closures restaurantId={restaurantId} refreshKey={refreshKey} />
     </div>
   );
 };
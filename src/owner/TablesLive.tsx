@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from "react";
-import type { RestaurantTable, TableStatus } from "../../types";
+import type { RestaurantTable, TableAttribute, TableStatus } from "../../types";
 import type { RestaurantLayoutWall } from "../../types";
 import {
   connectTablesStream,
@@ -12,9 +12,16 @@ import {
   patchWall,
   TABLE_STATUSES,
 } from "../../services/tables/tableApi";
+import { TABLE_ATTRIBUTES } from "../../services/reservations/seating";
+import type { CapacityBlock } from "../../services/reservations/types";
+import { getReservationSettings } from "../../services/reservations/settings";
+import { blocksOnDate } from "../../services/reservations/schedule";
+import { describeBlock } from "../../services/reservations/blocks";
+import { getRestaurantTimeZone, isoDateInZone } from "../../services/reservations/timezone";
 
 interface TablesLiveProps {
   restaurantId: string;
+  refreshKey: number;
 }
 
 type ViewMode = "map" | "list";
@@ -46,7 +53,7 @@ const byZoneThenName = (a: RestaurantTable, b: RestaurantTable): number => {
   return a.name.localeCompare(b.name);
 };
 
-const TablesLive: React.FC<TablesLiveProps> = ({ restaurantId }) => {
+const TablesLive: React.FC<TablesLiveProps> = ({ restaurantId, refreshKey }) => {
   const [tables, setTables] = useState<RestaurantTable[]>([]);
   const [walls, setWalls] = useState<RestaurantLayoutWall[]>([]);
   const [error, setError] = useState<string | null>(null);
@@ -130,6 +137,20 @@ const TablesLive: React.FC<TablesLiveProps> = ({ restaurantId }) => {
     return Array.from(map.entries());
   }, [tables]);
 
+  // Today's event blocks, and the ones holding each table.
+  const todayBlocks = useMemo(() => {
+    void refreshKey;
+    const today = isoDateInZone(new Date(), getRestaurantTimeZone(restaurantId));
+    return blocksOnDate(getReservationSettings(restaurantId), today);
+  }, [restaurantId, refreshKey]);
+  const blocksByTable = useMemo(() => {
+    const map = new Map<string, CapacityBlock[]>();
+    for (const b of todayBlocks) {
+      for (const id of b.table_ids ?? []) map.set(id, [...(map.get(id) ?? []), b]);
+    }
+    return map;
+  }, [todayBlocks]);
+
   const counts = useMemo(() => {
     const c = { free: 0, reserved: 0, occupied: 0, blocked: 0 };
     for (const t of tables) c[t.status]++;
@@ -180,6 +201,32 @@ const TablesLive: React.FC<TablesLiveProps> = ({ restaurantId }) => {
     }
   };
 
+  const toggleAttribute = async (t: RestaurantTable, attr: TableAttribute) => {
+    try {
+      setError(null);
+      const current = t.attributes ?? [];
+      const attributes = current.includes(attr) ? current.filter((a) => a !== attr) : [...current, attr];
+      const next = await patchTable(restaurantId, t.id, { attributes });
+      setTables(next.tables);
+      setWalls(next.walls);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error actualizando características.");
+    }
+  };
+
+  const toggleCombinable = async (t: RestaurantTable, other: RestaurantTable) => {
+    try {
+      setError(null);
+      const current = t.combinable_with ?? [];
+      const combinable_with = current.includes(other.id) ? current.filter((id) => id !== other.id) : [...current, other.id];
+      const next = await patchTable(restaurantId, t.id, { combinable_with });
+      setTables(next.tables);
+      setWalls(next.walls);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Error actualizando combinaciones.");
+    }
+  };
+
   const selected = useMemo(() => tables.find((t) => t.id === selectedId) ?? null, [tables, selectedId]);
   const selectedWall = useMemo(() => walls.find((w) => w.id === selectedWallId) ?? null, [walls, selectedWallId]);
 
@@ -445,6 +492,18 @@ const TablesLive: React.FC<TablesLiveProps> = ({ restaurantId }) => {
                 </div>
               </div>
             </div>
+            {todayBlocks.length > 0 ? (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {todayBlocks.map((b) => (
+                  <span
+                    key={b.id}
+                    className="px-2 py-0.5 rounded-full border border-dashed border-rose-300 bg-rose-50 text-[11px] font-semibold text-rose-800"
+                  >
+                    Bloqueo hoy · {describeBlock(b)}
+                  </span>
+                ))}
+              </div>
+            ) : null}
             <div
               className="relative mt-3 w-full rounded-lg border border-slate-200 bg-slate-50 overflow-hidden"
               style={{
@@ -593,11 +652,12 @@ const TablesLive: React.FC<TablesLiveProps> = ({ restaurantId }) => {
                 const selected = selectedId === t.id;
                 const z = normZone(t.zone);
                 const kind = t.kind === "stool" ? "stool" : "table";
+                const held = blocksByTable.get(t.id) ?? [];
                 return (
                   <button
                     key={t.id}
                     className={`absolute rounded-xl border shadow-sm px-3 py-2 text-left ${
-                      selected ? "ring-2 ring-slate-900" : ""
+                      selected ? "ring-2 ring-slate-900" : held.length > 0 ? "ring-2 ring-rose-300" : ""
                     } ${statusColor(t.status)}`}
                     style={{
                       left: `${pos.x * 100}%`,
@@ -631,6 +691,9 @@ const TablesLive: React.FC<TablesLiveProps> = ({ restaurantId }) => {
                       <>
                         <div className="text-xs font-bold text-center truncate">{t.name}</div>
                         <div className="text-[10px] text-center opacity-80">{statusLabel(t.status)}</div>
+                        {held.length > 0 ? (
+                          <div className="text-[10px] text-center font-semibold text-rose-700">{held[0].start}</div>
+                        ) : null}
                       </>
                     ) : (
                       <>
@@ -642,6 +705,11 @@ const TablesLive: React.FC<TablesLiveProps> = ({ restaurantId }) => {
                         <div className="mt-1 text-[11px] opacity-80">
                           {z === "terraza" ? "Terraza" : z === "interior" ? "Interior" : t.zone || "Interior"}
                         </div>
+                        {held.map((b) => (
+                          <div key={b.id} className="mt-1 text-[11px] font-semibold text-rose-700 truncate">
+                            Bloqueo {b.start}–{b.end}
+                          </div>
+                        ))}
                       </>
                     )}
                   </button>
@@ -665,6 +733,11 @@ const TablesLive: React.FC<TablesLiveProps> = ({ restaurantId }) => {
                         {selected.kind === "stool" ? "Taburete" : "Mesa"}
                       </div>
                       {selected.notes ? <div className="mt-2 text-xs text-slate-600">{selected.notes}</div> : null}
+                      {(blocksByTable.get(selected.id) ?? []).map((b) => (
+                        <div key={b.id} className="mt-2 text-xs font-semibold text-rose-700">
+                          Bloqueada hoy: {describeBlock(b)}
+                        </div>
+                      ))}
                       <div className="mt-2 text-[11px] text-slate-500">
                         Actualizado: {new Date(selected.updated_at).toLocaleString()}
                       </div>
@@ -687,6 +760,48 @@ const TablesLive: React.FC<TablesLiveProps> = ({ restaurantId }) => {
                         ))}
                       </div>
                     </div>
+                    <div className="space-y-2">
+                      <div className="text-xs font-semibold text-slate-700">Características</div>
+                      <div className="flex flex-wrap gap-2">
+                        {TABLE_ATTRIBUTES.map((a) => (
+                          <button
+                            key={`attr-${a.key}`}
+                            onClick={() => toggleAttribute(selected, a.key)}
+                            className={`px-2 py-1 rounded-md text-xs font-semibold border ${
+                              selected.attributes?.includes(a.key)
+                                ? "border-slate-900 bg-slate-900 text-white"
+                                : "border-slate-300 hover:bg-slate-100"
+                            }`}
+                          >
+                            {a.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <div className="text-xs font-semibold text-slate-700">Se puede juntar con</div>
+                      <div className="flex flex-wrap gap-2">
+                        {tables
+                          .filter((o) => o.id !== selected.id)
+                          .map((o) => {
+                            const linked = selected.combinable_with?.includes(o.id) ?? false;
+                            return (
+                              <button
+                                key={`comb-${o.id}`}
+                                onClick={() => toggleCombinable(selected, o)}
+                                className={`px-2 py-1 rounded-md text-xs font-semibold border ${
+                                  linked ? "border-slate-900 bg-slate-900 text-white" : "border-slate-300 hover:bg-slate-100"
+                                }`}
+                              >
+                                {o.name}
+                              </button>
+                            );
+                          })}
+                      </div>
+                      <p className="text-[11px] text-slate-500">
+                        Las mesas marcadas se combinan para grupos grandes. En Ajustes puedes combinar también las mesas contiguas del mapa.
+                      </p>
+                    </div>
                     <button
                       onClick={() => remove(selected)}
                       className="w-full px-3 py-2 rounded-md text-sm font-semibold border border-rose-200 text-rose-700 hover:bg-rose-50"
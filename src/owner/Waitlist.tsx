@@ -0,0 +1,100 @@
+import React, { useMemo } from "react";
+import { WaitlistRepository } from "../../services/reservations/waitlist";
+import { WaitlistStatus } from "../../services/reservations/types";
+import { formatTimeInZone, getRestaurantTimeZone } from "../../services/reservations/timezone";
+
+interface WaitlistProps {
+  restaurantId: string;
+  date: string; // YYYY-MM-DD
+  refreshKey: number;
+}
+
+const STATUS_LABEL: Record<WaitlistStatus, string> = {
+  waiting: "En espera",
+  offered: "Ofrecida",
+  accepted: "Aceptada",
+  expired: "Caducada",
+  cancelled: "Cancelada",
+};
+
+const STATUS_CLASS: Record<WaitlistStatus, string> = {
+  waiting: "bg-amber-50 text-amber-700 border-amber-200",
+  offered: "bg-sky-50 text-sky-700 border-sky-200",
+  accepted: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  expired: "bg-gray-50 text-gray-500 border-gray-200",
+  cancelled: "bg-gray-50 text-gray-500 border-gray-200",
+};
+
+const Waitlist: React.FC<WaitlistProps> = ({ restaurantId, date, refreshKey }) => {
+  const entries = useMemo(() => {
+    void refreshKey;
+    return WaitlistRepository.listByDate(restaurantId, date);
+  }, [restaurantId, date, refreshKey]);
+
+  const waitingCount = entries.filter((e) => e.status === "waiting").length;
+  const timeZone = getRestaurantTimeZone(restaurantId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-gray-900">Lista de espera</h3>
+        <div className="text-xs text-gray-500">
+          En espera: <span className="font-semibold text-gray-900">{waitingCount}</span>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-sm text-gray-500 italic border border-dashed border-gray-200 rounded-md p-4">
+          Nadie en lista de espera para esta fecha.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((e) => {
+            const open = e.status === "waiting" || e.status === "offered";
+            return (
+              <div key={e.id} className="border border-gray-200 rounded-md p-3 bg-white">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-bold text-gray-900 tabular-nums">
+                        {e.timeFrom === e.timeTo ? e.timeFrom : `${e.timeFrom}–${e.timeTo}`}
+                      </span>
+                      <span className="text-xs text-gray-500">·</span>
+                      <span className="text-sm font-semibold text-gray-800 truncate">{e.name}</span>
+                      <span className="text-xs text-gray-500">·</span>
+                      <span className="text-sm font-semibold text-gray-800">{e.partySize}p</span>
+                    </div>
+                    <div className="mt-1 text-xs text-gray-600 truncate">
+                      {e.phone} {e.notes ? `· ${e.notes}` : ""}
+                    </div>
+                    <div className="mt-2 flex items-center gap-2 text-xs">
+                      <span className={`px-2 py-0.5 rounded-full border ${STATUS_CLASS[e.status]}`}>{STATUS_LABEL[e.status]}</span>
+                      {e.status === "offered" && e.offeredTime ? (
+                        <span className="text-gray-600">
+                          Mesa a las <span className="font-semibold">{e.offeredTime}</span>
+                          {e.offerExpiresAt ? ` · caduca ${formatTimeInZone(e.offerExpiresAt, timeZone)}` : ""}
+                        </span>
+                      ) : null}
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={() => WaitlistRepository.setStatus(restaurantId, e.id, "cancelled")}
+                    disabled={!open}
+                    className={`px-3 py-2 rounded-md text-sm font-semibold border ${
+                      open ? "border-red-200 text-red-700 hover:bg-red-50" : "border-gray-200 text-gray-400 cursor-not-allowed"
+                    }`}
+                  >
+                    Quitar
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Waitlist;
@@ -10,6 +10,7 @@ export interface RestaurantConfig {
   petsAllowed: boolean;
   gracePeriodMin: number;
   noShowPolicy: string;
+  timezone: string; // IANA zone, e.g. "Europe/Madrid" or "Atlantic/Canary"
   // Time-slot policy for the reservation engine UX (the engine is the source of truth).
   slot_interval_min: number; // e.g. 15 / 30
   slot_rounding: "nearest" | "floor" | "ceil";
@@ -43,8 +44,32 @@ export interface MenuItem {
   sort: number;
 }
 
+// What the restaurant keeps about a guest between visits (keyed by phone).
+export interface GuestProfile {
+  restaurant_id: string;
+  phone: string;
+  name?: string;
+  allergies: string[]; // "frutos secos", "gluten", ...
+  preferences?: string; // Free text: "mesa tranquila", "trona"
+  tags: string[]; // "VIP", "habitual", ...
+  // Owner lifted the no-show restriction: no-shows before this no longer count.
+  restrictionLiftedAt?: number; // epoch ms
+  updated_at: number; // epoch ms
+}
+
+// Profile plus figures derived from the guest's reservations.
+export interface GuestSummary extends GuestProfile {
+  visits: number;
+  noShows: number;
+  cancellations: number;
+  lateCancellations: number;
+  lastVisit?: string; // YYYY-MM-DD
+  upcoming: number;
+}
+
 export type TableStatus = "free" | "occupied" | "reserved" | "blocked";
 export type TableKind = "table" | "stool";
+export type TableAttribute = "window" | "accessible" | "quiet" | "sofa";
 
 export interface RestaurantLayoutWall {
   id: string;
@@ -65,10 +90,13 @@ export interface RestaurantTable {
   capacity: number; // seats
   zone?: string; // "terraza", "sala", etc.
   kind?: TableKind; // default: "table"
+  attributes?: TableAttribute[];
   status: TableStatus;
   // Normalized coordinates in [0..1] for visual map layout.
   layout_x?: number;
   layout_y?: number;
+  // Tables this one can be pushed together with for larger parties (kept symmetric).
+  combinable_with?: string[];
   notes?: string;
   updated_at: number; // epoch ms
 }
@@ -80,11 +108,20 @@ export interface ReservationData {
   time: string | null;
   party_size: number | null;
   notes: string | null;
+  special_requests?: {
+    high_chairs?: number | null;
+    accessibility?: string[] | null; // "wheelchair", "reduced_mobility", "visual", "hearing"
+    occasion?: string | null; // "birthday", "anniversary", "business", "celebration", "other"
+    allergens?: string[] | null;
+    pets?: boolean | null;
+  } | null;
 }
 
 export interface BackendAction {
-  type: "check_availability" | "create_reservation" | "update_reservation" | "cancel_reservation" | "none";
+  type: "check_availability" | "create_reservation" | "update_reservation" | "cancel_reservation" | "confirm_reservation" | "join_waitlist" | "none";
   payload: any;
+  // Same key = same request (e.g. a retried message); the engine won't apply it twice.
+  idempotency_key?: string;
 }
 
 export interface AssistantParsedResponse {
@@ -133,6 +170,7 @@ export interface ReservationState {
   party_size: number | null;
   name: string | null;
   notes: string | null;
+  special_requests?: ReservationData["special_requests"];
   pendingAction: PendingAction | null;
 }
 
@@ -3,6 +3,13 @@ import crypto from 'crypto';
 import fs from 'fs';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createMemoryStore, isSyncedKey, onStorageWrite, setStorageBackend, storage } from './services/store/storage';
+import { mergeSyncedValue } from './services/store/merge';
+import { createStoredOutbox } from './services/messaging/outbox';
+import { createReminderScheduler } from './services/reservations/reminders';
+import { WaitlistRepository } from './services/reservations/waitlist';
+import { exportReservationFeed } from './services/calendar/reservationFeed';
+import { RestaurantRepository } from './services/restaurants/repository';
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
@@ -14,6 +21,9 @@ export default defineConfig(({ mode }) => {
   const cookieName = 'owner_session';
   const maxAgeSeconds = 60 * 60 * 8; // 8h
   const tablesDataPath = path.resolve(__dirname, ".data", "tables_v1.json");
+  const calendarDataPath = path.resolve(__dirname, ".data", "calendar_v1.json");
+  const storeDataPath = path.resolve(__dirname, ".data", "store_v1.json");
+  const maxStoreBytes = 20 * 1024 * 1024;
 
   const base64url = (v: string): string => Buffer.from(v).toString('base64url');
   const sign = (payloadB64: string): string =>
@@ -136,6 +146,8 @@ export default defineConfig(({ mode }) => {
     status: TableStatus;
     layout_x?: number;
     layout_y?: number;
+    combinable_with?: string[];
+    attributes?: string[];
     notes?: string;
     updated_at: number;
   };
@@ -380,9 +392,36 @@ export default defineConfig(({ mode }) => {
         if (!Number.isFinite(y) || y < 0 || y > 1) return json(res, 400, { error: "layout_y_invalid" });
         next.layout_y = y;
       }
+      if (patch.combinable_with !== undefined) {
+        if (!Array.isArray(patch.combinable_with)) return json(res, 400, { error: "combinable_with_invalid" });
+        const known = new Set(list.map((t) => t.id));
+        next.combinable_with = Array.from(new Set<string>(patch.combinable_with.map((v: unknown) => String(v)))).filter(
+          (id) => id !== tableId && known.has(id)
+        );
+      }
+      if (patch.attributes !== undefined) {
+        if (!Array.isArray(patch.attributes)) return json(res, 400, { error: "attributes_invalid" });
+        const allowed = new Set(["window", "accessible", "quiet", "sofa"]);
+        const attrs = Array.from(new Set<string>(patch.attributes.map((v: unknown) => String(v))));
+        if (attrs.some((a) => !allowed.has(a))) return json(res, 400, { error: "attributes_invalid" });
+        next.attributes = attrs;
+      }
       if (!next.name) return json(res, 400, { error: "name_required" });
       next.updated_at = Date.now();
 
+      if (patch.combinable_with !== undefined) {
+        // Keep combinations symmetric: linked tables list this one back.
+        const linked = new Set(next.combinable_with ?? []);
+        for (let i = 0; i < list.length; i++) {
+          if (i === idx) continue;
+          const other = list[i];
+          const has = other.combinable_with?.includes(tableId) ?? false;
+          if (linked.has(other.id) === has) continue;
+          const rest = (other.combinable_with ?? []).filter((id) => id !== tableId);
+          list[i] = { ...other, combinable_with: linked.has(other.id) ? [...rest, tableId] : rest, updated_at: next.updated_at };
+        }
+      }
+
       list[idx] = next;
       tablesByRestaurant.set(rid, list);
       if (!wallsByRestaurant.has(rid)) wallsByRestaurant.set(rid, []);
@@ -405,7 +444,11 @@ export default defineConfig(({ mode }) => {
       if (!tableId) return json(res, 400, { error: "table_id_required" });
 
       const list = (tablesByRestaurant.get(rid) ?? []).slice();
-      const next = list.filter((t) => t.id !== tableId);
+      const next = list
+        .filter((t) => t.id !== tableId)
+        .map((t) =>
+          t.combinable_with?.includes(tableId) ? { ...t, combinable_with: t.combinable_with.filter((id) => id !== tableId) } : t
+        );
       tablesByRestaurant.set(rid, next);
       if (!wallsByRestaurant.has(rid)) wallsByRestaurant.set(rid, []);
       scheduleSaveTables();
@@ -512,6 +555,247 @@ export default defineConfig(({ mode }) => {
     return json(res, 404, { error: "not_found" });
   };
 
+  // The restaurant's data (reservations, settings, waitlist...) as the owner's browser keeps
+  // it, synced here so the server's own jobs can read and update it. Each key holds the same
+  // JSON the browser stores under it; see services/store/storeSync.ts for the client side.
+  const storeSseClients = new Set<any>();
+  let storeLoaded = false;
+
+  let storeSaveTimer: NodeJS.Timeout | null = null;
+  const scheduleSaveStore = () => {
+    if (storeSaveTimer) clearTimeout(storeSaveTimer);
+    storeSaveTimer = setTimeout(() => {
+      try {
+        ensureDir(path.dirname(storeDataPath));
+        const entries = Object.fromEntries(storage.keys().filter(isSyncedKey).map((k) => [k, storage.getItem(k)]));
+        fs.writeFileSync(storeDataPath, JSON.stringify(entries), "utf8");
+      } catch {
+        // ignore
+      }
+    }, 150);
+  };
+
+  const broadcastStoreChange = (key: string, value: string | null) => {
+    const payload = JSON.stringify({ key, value });
+    for (const res of storeSseClients) {
+      try {
+        res.write(`event: change\n`);
+        res.write(`data: ${payload}\n\n`);
+      } catch {
+        // ignore
+      }
+    }
+  };
+
+  const loadStoreFromDisk = () => {
+    if (storeLoaded) return;
+    storeLoaded = true;
+    const initial: Record<string, string> = {};
+    try {
+      if (fs.existsSync(storeDataPath)) {
+        const parsed = JSON.parse(fs.readFileSync(storeDataPath, "utf8")) as Record<string, unknown>;
+        for (const [key, value] of Object.entries(parsed || {})) {
+          if (isSyncedKey(key) && typeof value === "string") initial[key] = value;
+        }
+      }
+    } catch {
+      // ignore
+    }
+    setStorageBackend(createMemoryStore(initial));
+    onStorageWrite((key, value) => {
+      if (!isSyncedKey(key)) return;
+      scheduleSaveStore();
+      broadcastStoreChange(key, value);
+    });
+  };
+
+  const storeMiddleware = async (req: any, res: any, next: any) => {
+    const url = req.url || "";
+    if (!url.startsWith("/api/store/")) return next();
+
+    const auth = requireOwner(req);
+    if (!auth.ok) return json(res, 401, { error: "unauthorized" });
+
+    const { path: pathname } = parseUrl(url);
+
+    if (req.method === "GET" && pathname === "/api/store/snapshot") {
+      const entries = Object.fromEntries(storage.keys().filter(isSyncedKey).map((k) => [k, storage.getItem(k)]));
+      return json(res, 200, { entries });
+    }
+
+    if (req.method === "GET" && pathname === "/api/store/stream") {
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+      res.setHeader("Cache-Control", "no-cache, no-transform");
+      res.setHeader("Connection", "keep-alive");
+      res.setHeader("X-Accel-Buffering", "no");
+      storeSseClients.add(res);
+
+      const ping = setInterval(() => {
+        try {
+          res.write(`event: ping\n`);
+          res.write(`data: {}\n\n`);
+        } catch {
+          // ignore
+        }
+      }, 25_000);
+
+      req.on("close", () => {
+        clearInterval(ping);
+        storeSseClients.delete(res);
+      });
+      return;
+    }
+
+    if (req.method === "POST" && pathname === "/api/store/put") {
+      const bodyRaw = await readBody(req);
+      if (bodyRaw.length > maxStoreBytes) return json(res, 413, { error: "too_large" });
+      let payload: any = {};
+      try {
+        payload = bodyRaw ? JSON.parse(bodyRaw) : {};
+      } catch {
+        return json(res, 400, { error: "invalid_json" });
+      }
+      const entries = payload.entries;
+      if (!entries || typeof entries !== "object" || Array.isArray(entries)) return json(res, 400, { error: "entries_required" });
+      for (const [key, value] of Object.entries(entries)) {
+        if (!isSyncedKey(key)) return json(res, 400, { error: "key_invalid", key });
+        if (value !== null && typeof value !== "string") return json(res, 400, { error: "value_invalid", key });
+      }
+      // Bookings merge one by one, so a browser's stale copy can't undo a reminder or a release
+      // the jobs wrote meanwhile. Whatever the sender's copy was missing goes back in `merged`.
+      const merged: Record<string, string | null> = {};
+      for (const [key, value] of Object.entries(entries as Record<string, string | null>)) {
+        const current = storage.getItem(key);
+        const next = mergeSyncedValue(key, current, value);
+        if (next !== value) merged[key] = next;
+        if (current === next) continue;
+        if (next === null) storage.removeItem(key);
+        else storage.setItem(key, next);
+      }
+      return json(res, 200, { ok: true, merged });
+    }
+
+    return json(res, 404, { error: "not_found" });
+  };
+
+  // Reminders, releases and lapsed waitlist offers are handled here, against the synced
+  // store; messages wait in the stored outbox until something delivers them (the chat
+  // simulator picks up its own).
+  const startBackgroundJobs = (httpServer: any) => {
+    const scheduler = createReminderScheduler({ outbox: createStoredOutbox() });
+    scheduler.start();
+    const waitlistSweep = setInterval(() => WaitlistRepository.expireStaleOffers(), 60_000);
+    httpServer?.on("close", () => {
+      scheduler.stop();
+      clearInterval(waitlistSweep);
+    });
+  };
+
+  // Calendar apps fetch the feed with a per-restaurant token instead of the session cookie.
+  // Tokens are random and stored here, so rotating one revokes the old link.
+  const feedTokens = new Map<string, { token: string; created_at: number }>();
+
+  const loadCalendarsFromDisk = () => {
+    try {
+      if (!fs.existsSync(calendarDataPath)) return;
+      const parsed = JSON.parse(fs.readFileSync(calendarDataPath, "utf8")) as Record<string, any>;
+      for (const [rid, value] of Object.entries(parsed || {})) {
+        // Older files held published feeds (signed links); those links are not honoured.
+        if (value && typeof value.token === "string" && value.token) {
+          feedTokens.set(rid, { token: value.token, created_at: Number(value.created_at) || 0 });
+        }
+      }
+    } catch {
+      // ignore
+    }
+  };
+
+  let calendarSaveTimer: NodeJS.Timeout | null = null;
+  const scheduleSaveCalendars = () => {
+    if (calendarSaveTimer) clearTimeout(calendarSaveTimer);
+    calendarSaveTimer = setTimeout(() => {
+      try {
+        ensureDir(path.dirname(calendarDataPath));
+        fs.writeFileSync(calendarDataPath, JSON.stringify(Object.fromEntries(feedTokens), null, 2), "utf8");
+      } catch {
+        // ignore
+      }
+    }, 150);
+  };
+
+  // With the built-in secret anyone can forge an owner session, so the feed stays off.
+  const feedDisabled = ownerSecret === "dev-only-owner-secret";
+
+  const issueFeedToken = (rid: string): string => {
+    const token = crypto.randomBytes(24).toString("base64url");
+    feedTokens.set(rid, { token, created_at: Date.now() });
+    scheduleSaveCalendars();
+    return token;
+  };
+
+  const verifyFeedToken = (rid: string, token: string): boolean => {
+    const stored = feedTokens.get(rid);
+    if (!stored) return false;
+    const a = Buffer.from(token);
+    const b = Buffer.from(stored.token);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  };
+
+  const feedPath = (rid: string, token: string): string =>
+    `/api/calendar/feed.ics?${new URLSearchParams({ rid, token }).toString()}`;
+
+  const calendarMiddleware = async (req: any, res: any, next: any) => {
+    const url = req.url || "";
+    if (!url.startsWith("/api/calendar/")) return next();
+
+    const { path: pathname, query } = parseUrl(url);
+
+    if (req.method === "GET" && pathname === "/api/calendar/feed.ics") {
+      if (feedDisabled) return json(res, 503, { error: "owner_secret_not_set" });
+      const rid = (query.get("rid") || "").trim();
+      const token = (query.get("token") || "").trim();
+      if (!rid || !token || !verifyFeedToken(rid, token)) return json(res, 401, { error: "unauthorized" });
+      if (!RestaurantRepository.getById(rid)) return json(res, 404, { error: "not_found" });
+      // Built from the synced store on every request, so it is as current as the server's copy.
+      const tableNames = new Map((tablesByRestaurant.get(rid) ?? []).map((t) => [t.id, t.name]));
+      const ics = exportReservationFeed(rid, tableNames);
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `inline; filename="reservas.ics"`);
+      res.setHeader("Cache-Control", "no-cache");
+      res.end(ics);
+      return;
+    }
+
+    const auth = requireOwner(req);
+    if (!auth.ok) return json(res, 401, { error: "unauthorized" });
+
+    if (req.method === "GET" && pathname === "/api/calendar/feed_info") {
+      const rid = (query.get("rid") || "").trim();
+      if (!rid) return json(res, 400, { error: "rid_required" });
+      if (feedDisabled) return json(res, 200, { path: null, disabled: "owner_secret_not_set" });
+      const token = feedTokens.get(rid)?.token ?? issueFeedToken(rid);
+      return json(res, 200, { path: feedPath(rid, token) });
+    }
+
+    if (req.method === "POST" && pathname === "/api/calendar/rotate_token") {
+      const bodyRaw = await readBody(req);
+      let payload: any = {};
+      try {
+        payload = bodyRaw ? JSON.parse(bodyRaw) : {};
+      } catch {
+        return json(res, 400, { error: "invalid_json" });
+      }
+      const rid = String(payload.rid || "").trim();
+      if (!rid) return json(res, 400, { error: "rid_required" });
+      if (feedDisabled) return json(res, 200, { path: null, disabled: "owner_secret_not_set" });
+      return json(res, 200, { path: feedPath(rid, issueFeedToken(rid)) });
+    }
+
+    return json(res, 404, { error: "not_found" });
+  };
+
   return {
     server: {
       port: 3000,
@@ -525,11 +809,21 @@ export default defineConfig(({ mode }) => {
           server.middlewares.use(authMiddleware);
           loadTablesFromDisk();
           server.middlewares.use(tablesMiddleware);
+          loadCalendarsFromDisk();
+          server.middlewares.use(calendarMiddleware);
+          loadStoreFromDisk();
+          server.middlewares.use(storeMiddleware);
+          startBackgroundJobs(server.httpServer);
         },
         configurePreviewServer(server) {
           server.middlewares.use(authMiddleware);
           loadTablesFromDisk();
           server.middlewares.use(tablesMiddleware);
+          loadCalendarsFromDisk();
+          server.middlewares.use(calendarMiddleware);
+          loadStoreFromDisk();
+          server.middlewares.use(storeMiddleware);
+          startBackgroundJobs(server.httpServer);
         }
       }
     ],